@@ -2,7 +2,9 @@ import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js'
 import path from 'node:path'
 import { fileURLToPath } from 'url'
 
-import { initProxy, ValidationError } from '../src/init-server'
+import { startHttpServer } from '../src/http-server'
+import { initProxyFactory, ValidationError } from '../src/init-server'
+import { parseServerOptions, parseTransportOptions } from '../src/server-options'
 
 export async function startServer(args: string[] = process.argv.slice(2)) {
   const filename = fileURLToPath(import.meta.url)
@@ -10,8 +12,24 @@ export async function startServer(args: string[] = process.argv.slice(2)) {
   const specPath = path.resolve(directory, '../scripts/notion-openapi.json')
   
   const baseUrl = process.env.BASE_URL ?? undefined
+  const options = parseServerOptions(args)
+  const transportOptions = parseTransportOptions(args)
 
-  const proxy = await initProxy(specPath, baseUrl)
+  const createProxy = await initProxyFactory(specPath, baseUrl, options)
+
+  if (transportOptions.transport === 'http') {
+    const { server, address } = await startHttpServer(createProxy, transportOptions)
+    console.error(`MCP server listening on http://${address.address}:${address.port} (Streamable HTTP: /mcp, SSE: /sse, health: /health)`)
+
+    const shutdown = () => {
+      server.close().finally(() => process.exit(0))
+    }
+    process.once('SIGINT', shutdown)
+    process.once('SIGTERM', shutdown)
+    return server
+  }
+
+  const proxy = createProxy()
   await proxy.connect(new StdioServerTransport())
 
   return proxy.getServer()
@@ -0,0 +1,234 @@
+import { Client } from '@modelcontextprotocol/sdk/client/index.js'
+import { SSEClientTransport } from '@modelcontextprotocol/sdk/client/sse.js'
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js'
+import type { OpenAPIV3 } from 'openapi-types'
+import http from 'node:http'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+
+import { HttpServerOptions, McpHttpServer, startHttpServer } from '../http-server'
+import type { ProxySessionOptions } from '../init-server'
+import { MCPProxy } from '../openapi-mcp-server/mcp/proxy'
+
+const spec: OpenAPIV3.Document = {
+  openapi: '3.0.0',
+  info: { title: 'Test API', version: '1.0.0' },
+  servers: [{ url: 'http://localhost:1' }],
+  paths: {},
+}
+
+describe('McpHttpServer', () => {
+  let server: McpHttpServer
+  let baseUrl: string
+  let proxies: MCPProxy[]
+  let sessionOptions: ProxySessionOptions[]
+
+  const start = async (options: Partial<HttpServerOptions> = {}) => {
+    proxies = []
+    sessionOptions = []
+    const started = await startHttpServer(
+      (session) => {
+        sessionOptions.push(session)
+        const proxy = new MCPProxy('Notion API', spec)
+        proxies.push(proxy)
+        return proxy
+      },
+      { host: '127.0.0.1', port: 0, ...options },
+    )
+    server = started.server
+    baseUrl = `http://127.0.0.1:${started.address.port}`
+  }
+
+  // Send an initialize request and read the whole response, leaving no request of the session open
+  const initialize = async () => {
+    const response = await fetch(`${baseUrl}/mcp`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Accept: 'application/json, text/event-stream' },
+      body: JSON.stringify({
+        jsonrpc: '2.0',
+        id: 1,
+        method: 'initialize',
+        params: { protocolVersion: '2025-03-26', capabilities: {}, clientInfo: { name: 'raw', version: '1.0.0' } },
+      }),
+    })
+    await response.text()
+    return response
+  }
+
+  beforeEach(async () => {
+    await start()
+  })
+
+  afterEach(async () => {
+    await server.close()
+  })
+
+  it('reports its health', async () => {
+    const response = await fetch(`${baseUrl}/health`)
+
+    expect(response.status).toBe(200)
+    expect(await response.json()).toEqual({ status: 'ok', sessions: 0 })
+  })
+
+  it('serves each Streamable HTTP session with its own proxy', async () => {
+    const first = new Client({ name: 'first', version: '1.0.0' })
+    const second = new Client({ name: 'second', version: '1.0.0' })
+    await first.connect(new StreamableHTTPClientTransport(new URL(`${baseUrl}/mcp`)))
+    await second.connect(new StreamableHTTPClientTransport(new URL(`${baseUrl}/mcp`)))
+
+    const { tools } = await first.listTools()
+    expect(tools.map((tool) => tool.name)).toContain('API-get-one-pager')
+    expect(proxies).toHaveLength(2)
+    expect(server.sessionCount).toBe(2)
+
+    await first.close()
+    await second.close()
+  })
+
+  it('forgets Streamable HTTP sessions once they are terminated', async () => {
+    const client = new Client({ name: 'ended', version: '1.0.0' })
+    const transport = new StreamableHTTPClientTransport(new URL(`${baseUrl}/mcp`))
+    await client.connect(transport)
+    const sessionId = transport.sessionId!
+    expect(server.sessionCount).toBe(1)
+
+    await transport.terminateSession()
+    expect(server.sessionCount).toBe(0)
+
+    const response = await fetch(`${baseUrl}/mcp`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Accept: 'application/json, text/event-stream', 'mcp-session-id': sessionId },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'tools/list' }),
+    })
+    expect(response.status).toBe(404)
+
+    await client.close()
+  })
+
+  it('serves the legacy SSE transport', async () => {
+    const client = new Client({ name: 'legacy', version: '1.0.0' })
+    await client.connect(new SSEClientTransport(new URL(`${baseUrl}/sse`)))
+
+    const { tools } = await client.listTools()
+    expect(tools.map((tool) => tool.name)).toContain('API-get-one-pager')
+    expect(server.sessionCount).toBe(1)
+
+    await client.close()
+  })
+
+  it('rejects requests without a valid session', async () => {
+    const response = await fetch(`${baseUrl}/mcp`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Accept: 'application/json, text/event-stream' },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'tools/list' }),
+    })
+
+    expect(response.status).toBe(400)
+    expect(server.sessionCount).toBe(0)
+  })
+
+  it('opens sessions with the token of the Authorization header and binds them to it', async () => {
+    const client = new Client({ name: 'tenant', version: '1.0.0' })
+    const transport = new StreamableHTTPClientTransport(new URL(`${baseUrl}/mcp`), {
+      requestInit: { headers: { Authorization: 'Bearer ntn_tenant_token' } },
+    })
+    await client.connect(transport)
+    expect(sessionOptions).toEqual([{ notionToken: 'ntn_tenant_token' }])
+
+    const response = await fetch(`${baseUrl}/mcp`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Accept: 'application/json, text/event-stream',
+        Authorization: 'Bearer ntn_other_token',
+        'mcp-session-id': transport.sessionId!,
+      },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'tools/list' }),
+    })
+    expect(response.status).toBe(403)
+    expect(await response.text()).not.toContain('ntn_')
+
+    await client.close()
+  })
+
+  it('rejects malformed Authorization headers', async () => {
+    const response = await fetch(`${baseUrl}/mcp`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Authorization: 'Basic dXNlcjpwYXNz' },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'initialize' }),
+    })
+
+    expect(response.status).toBe(401)
+    expect(proxies).toHaveLength(0)
+  })
+
+  it('rejects requests for another host or from another origin', async () => {
+    const status = await new Promise<number | undefined>((resolve, reject) => {
+      const { port } = new URL(baseUrl)
+      http
+        .request({ host: '127.0.0.1', port, path: '/mcp', method: 'POST', headers: { Host: `rebound.example:${port}` } }, (res) => {
+          res.resume()
+          resolve(res.statusCode)
+        })
+        .on('error', reject)
+        .end('{}')
+    })
+    expect(status).toBe(403)
+
+    const fromPage = await fetch(`${baseUrl}/mcp`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Origin: 'https://rebound.example' },
+      body: '{}',
+    })
+    expect(fromPage.status).toBe(403)
+
+    const fromLocalPage = await fetch(`${baseUrl}/mcp`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Origin: 'http://localhost:8080' },
+      body: '{}',
+    })
+    expect(fromLocalPage.status).toBe(400)
+  })
+
+  it('accepts the configured hosts instead of the default ones', async () => {
+    await server.close()
+    await start({ allowedHosts: ['mcp.example.com'] })
+
+    const response = await fetch(`${baseUrl}/mcp`, { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: '{}' })
+
+    expect(response.status).toBe(403)
+  })
+
+  it('refuses new sessions beyond the maximum', async () => {
+    await server.close()
+    await start({ maxSessions: 1 })
+
+    expect((await initialize()).status).toBe(200)
+    const refused = await initialize()
+
+    expect(refused.status).toBe(503)
+    expect(server.sessionCount).toBe(1)
+    expect(proxies).toHaveLength(1)
+  })
+
+  it('closes sessions that stay idle', async () => {
+    await server.close()
+    await start({ sessionIdleTimeoutMs: 50 })
+
+    await initialize()
+    expect(server.sessionCount).toBe(1)
+
+    await vi.waitFor(() => expect(server.sessionCount).toBe(0))
+  })
+
+  it('keeps sessions with an open event stream', async () => {
+    await server.close()
+    await start({ sessionIdleTimeoutMs: 50 })
+    const client = new Client({ name: 'listening', version: '1.0.0' })
+    await client.connect(new StreamableHTTPClientTransport(new URL(`${baseUrl}/mcp`)))
+
+    await new Promise((resolve) => setTimeout(resolve, 200))
+
+    expect(server.sessionCount).toBe(1)
+    await client.close()
+  })
+})
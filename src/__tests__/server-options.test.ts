@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest'
+import { parseServerOptions, parseTransportOptions } from '../server-options'
+
+describe('parseServerOptions', () => {
+  it('reads rate limit settings from CLI flags', () => {
+    const options = parseServerOptions(['--rate-limit', '2', '--max-concurrency=4', '--max-retries', '0'], {})
+
+    expect(options.rateLimit).toEqual({ requestsPerSecond: 2, burst: undefined, maxConcurrent: 4 })
+    expect(options.retry).toEqual({ maxRetries: 0 })
+  })
+
+  it('falls back to environment variables', () => {
+    const options = parseServerOptions([], {
+      NOTION_MCP_RATE_LIMIT: '5',
+      NOTION_MCP_RATE_LIMIT_BURST: '10',
+    })
+
+    expect(options.rateLimit).toEqual({ requestsPerSecond: 5, burst: 10, maxConcurrent: undefined })
+  })
+
+  it('prefers CLI flags over environment variables', () => {
+    const options = parseServerOptions(['--rate-limit', '1'], { NOTION_MCP_RATE_LIMIT: '5' })
+
+    expect(options.rateLimit?.requestsPerSecond).toBe(1)
+  })
+
+  it('reads the log level', () => {
+    expect(parseServerOptions(['--log-level', 'debug'], {}).logLevel).toBe('debug')
+    expect(parseServerOptions([], { NOTION_MCP_LOG_LEVEL: 'error' }).logLevel).toBe('error')
+    expect(parseServerOptions([], {}).logLevel).toBeUndefined()
+  })
+
+  it('reads cache settings', () => {
+    const options = parseServerOptions(['--cache-ttl', '60', '--cache-freshness-check', 'false'], {})
+
+    expect(options.cache?.pages).toEqual({ ttlMs: 60000 })
+    expect(options.cache?.blockChildren).toEqual({ ttlMs: 60000 })
+    expect(options.cache?.freshnessCheck).toBe(false)
+    expect(parseServerOptions([], { NOTION_MCP_CACHE_DIR: '/tmp/notion-cache' }).cache?.path).toBe('/tmp/notion-cache')
+    expect(parseServerOptions([], {}).cache).toEqual({ freshnessCheck: undefined, path: undefined })
+  })
+
+  it('reads the subscription polling interval', () => {
+    expect(parseServerOptions(['--poll-interval', '30'], {}).subscriptions).toEqual({ intervalMs: 30000 })
+    expect(parseServerOptions([], { NOTION_MCP_POLL_INTERVAL: '120' }).subscriptions).toEqual({ intervalMs: 120000 })
+    expect(parseServerOptions([], {}).subscriptions).toEqual({ intervalMs: undefined })
+  })
+
+  it('rejects invalid values', () => {
+    expect(() => parseServerOptions(['--rate-limit', 'fast'], {})).toThrow('Invalid value for --rate-limit (NOTION_MCP_RATE_LIMIT): fast')
+    expect(() => parseServerOptions(['--log-level', 'loud'], {})).toThrow('Invalid value for --log-level (NOTION_MCP_LOG_LEVEL): loud')
+    expect(() => parseServerOptions([], { NOTION_MCP_CACHE_FRESHNESS_CHECK: 'maybe' })).toThrow(
+      'Invalid value for --cache-freshness-check (NOTION_MCP_CACHE_FRESHNESS_CHECK): maybe',
+    )
+  })
+})
+
+describe('parseTransportOptions', () => {
+  it('defaults to stdio and a loopback HTTP address', () => {
+    expect(parseTransportOptions([], {})).toEqual({ transport: 'stdio', host: '127.0.0.1', port: 3000 })
+  })
+
+  it('reads the transport, host and port', () => {
+    expect(parseTransportOptions(['--transport', 'http', '--host', '0.0.0.0', '--port=8080'], {})).toEqual({
+      transport: 'http',
+      host: '0.0.0.0',
+      port: 8080,
+    })
+    expect(parseTransportOptions([], { NOTION_MCP_TRANSPORT: 'http', NOTION_MCP_PORT: '4000' })).toMatchObject({
+      transport: 'http',
+      port: 4000,
+    })
+  })
+
+  it('reads the allowed hosts and session limits', () => {
+    expect(
+      parseTransportOptions(['--allowed-hosts', 'mcp.example.com, 10.0.0.5', '--max-sessions', '10'], { NOTION_MCP_SESSION_IDLE_TIMEOUT: '300' }),
+    ).toMatchObject({
+      allowedHosts: ['mcp.example.com', '10.0.0.5'],
+      maxSessions: 10,
+      sessionIdleTimeoutMs: 300_000,
+    })
+  })
+
+  it('rejects invalid values', () => {
+    expect(() => parseTransportOptions(['--transport', 'websocket'], {})).toThrow(/--transport/)
+    expect(() => parseTransportOptions(['--port', '70000'], {})).toThrow(/--port/)
+    expect(() => parseTransportOptions(['--max-sessions', '0'], {})).toThrow(/--max-sessions/)
+    expect(() => parseTransportOptions([], { NOTION_MCP_SESSION_IDLE_TIMEOUT: 'soon' })).toThrow(/NOTION_MCP_SESSION_IDLE_TIMEOUT/)
+  })
+})
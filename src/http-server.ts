@@ -0,0 +1,345 @@
+import { randomUUID } from 'node:crypto'
+import http, { IncomingMessage, ServerResponse } from 'node:http'
+import { AddressInfo } from 'node:net'
+
+import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js'
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js'
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js'
+
+import type { ProxySessionOptions } from './init-server'
+import type { MCPProxy } from './openapi-mcp-server/mcp/proxy'
+import { fingerprintSecret, parseBearerToken, redactSecrets } from './openapi-mcp-server/mcp/secrets'
+
+// Endpoints of the Streamable HTTP transport and of the legacy SSE transport
+const MCP_PATH = '/mcp'
+const SSE_PATH = '/sse'
+const SSE_MESSAGES_PATH = '/messages'
+const HEALTH_PATH = '/health'
+
+// Largest JSON-RPC request body accepted
+const MAX_BODY_BYTES = 4 * 1024 * 1024
+
+export const DEFAULT_MAX_SESSIONS = 100
+export const DEFAULT_SESSION_IDLE_TIMEOUT_MS = 30 * 60 * 1000
+
+// Names of the local machine, accepted in Host and Origin headers by default
+const LOOPBACK_HOSTNAMES = ['localhost', '127.0.0.1', '::1']
+
+// Bind addresses that listen on every interface rather than naming one
+const WILDCARD_ADDRESSES = ['0.0.0.0', '::']
+
+export type HttpServerOptions = {
+  host: string
+  port: number
+  /** Hostnames accepted in the Host and Origin headers; defaults to the loopback names and the bind address */
+  allowedHosts?: string[]
+  /** Maximum number of open sessions; new sessions are refused beyond it */
+  maxSessions?: number
+  /** Time after which a session without open requests is closed, in milliseconds */
+  sessionIdleTimeoutMs?: number
+}
+
+type Session = {
+  transport: StreamableHTTPServerTransport | SSEServerTransport
+  proxy: MCPProxy
+  /** Fingerprint of the Notion token the session was opened with */
+  tokenFingerprint?: string
+  /** Requests of the session whose response is still open, including event streams */
+  openRequests: number
+  /** Closes the session once it has been idle for too long */
+  idleTimer?: NodeJS.Timeout
+}
+
+// Creates the proxy serving a new session
+export type ProxyFactory = (session: ProxySessionOptions) => MCPProxy
+
+/**
+ * HTTP front end serving MCP over Streamable HTTP (`/mcp`) and the legacy SSE
+ * transport (`/sse` and `/messages`), plus a `/health` endpoint.
+ *
+ * Every session gets its own proxy, so caches, background jobs and log levels are
+ * never shared between clients. A client may act as its own Notion integration by
+ * sending `Authorization: Bearer <token>`; later requests of the session must carry
+ * the same token. Without the header, the token of OPENAPI_MCP_HEADERS is used.
+ *
+ * Requests whose Host or Origin header names another host are refused, so that a web
+ * page cannot reach the server through DNS rebinding. Sessions are limited in number,
+ * and closed once they have had no open request for the idle timeout.
+ */
+export class McpHttpServer {
+  private readonly server: http.Server
+  private sessions: Map<string, Session> = new Map()
+  private readonly allowedHosts: Set<string>
+  private readonly maxSessions: number
+  private readonly sessionIdleTimeoutMs: number
+
+  /**
+   * @param createProxy Creates the proxy serving a new session
+   * @param options Bind address, port, and the limits applied to requests and sessions
+   */
+  constructor(
+    private readonly createProxy: ProxyFactory,
+    private readonly options: HttpServerOptions,
+  ) {
+    this.allowedHosts = new Set((options.allowedHosts ?? defaultAllowedHosts(options.host)).map(normalizeHostname))
+    this.maxSessions = options.maxSessions ?? DEFAULT_MAX_SESSIONS
+    this.sessionIdleTimeoutMs = options.sessionIdleTimeoutMs ?? DEFAULT_SESSION_IDLE_TIMEOUT_MS
+    this.server = http.createServer((req, res) => {
+      this.handle(req, res).catch((error) => {
+        console.error('Error handling HTTP request:', redactSecrets(error instanceof Error ? error.message : String(error)))
+        if (!res.headersSent) {
+          sendJsonRpcError(res, 500, -32603, 'Internal server error')
+        } else {
+          res.end()
+        }
+      })
+    })
+  }
+
+  /**
+   * Start listening
+   * @returns The address the server is bound to
+   */
+  async listen(): Promise<AddressInfo> {
+    await new Promise<void>((resolve, reject) => {
+      this.server.once('error', reject)
+      this.server.listen(this.options.port, this.options.host, () => {
+        this.server.off('error', reject)
+        resolve()
+      })
+    })
+    return this.server.address() as AddressInfo
+  }
+
+  /**
+   * Close every session, then stop listening
+   */
+  async close(): Promise<void> {
+    const sessions = [...this.sessions.values()]
+    sessions.forEach(({ idleTimer }) => clearTimeout(idleTimer))
+    await Promise.all(sessions.map(({ proxy }) => proxy.close().catch(() => undefined)))
+    this.sessions.clear()
+    await new Promise<void>((resolve, reject) => this.server.close((error) => (error ? reject(error) : resolve())))
+  }
+
+  get sessionCount(): number {
+    return this.sessions.size
+  }
+
+  private async handle(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const url = new URL(req.url ?? '/', 'http://localhost')
+    if (url.pathname === HEALTH_PATH && req.method === 'GET') {
+      sendJson(res, 200, { status: 'ok', sessions: this.sessions.size })
+      return
+    }
+
+    if (!this.isAllowedHost(req.headers.host) || (req.headers.origin !== undefined && !this.isAllowedHost(req.headers.origin, true))) {
+      sendJsonRpcError(res, 403, -32000, 'Forbidden: host not allowed')
+      return
+    }
+
+    const authorization = req.headers.authorization
+    const notionToken = parseBearerToken(authorization)
+    if (authorization !== undefined && !notionToken) {
+      sendJsonRpcError(res, 401, -32001, 'Unauthorized: expected an Authorization header of the form "Bearer <Notion token>"')
+      return
+    }
+
+    if (url.pathname === MCP_PATH) {
+      await this.handleStreamableHttp(req, res, notionToken)
+    } else if (url.pathname === SSE_PATH && req.method === 'GET') {
+      await this.handleSseConnection(res, notionToken)
+    } else if (url.pathname === SSE_MESSAGES_PATH && req.method === 'POST') {
+      await this.handleSseMessage(req, res, url.searchParams.get('sessionId'), notionToken)
+    } else {
+      sendJson(res, 404, { error: 'Not found' })
+    }
+  }
+
+  // Route a Streamable HTTP request to its session, creating one for initialize requests
+  private async handleStreamableHttp(req: IncomingMessage, res: ServerResponse, notionToken: string | undefined): Promise<void> {
+    const body = req.method === 'POST' ? await readJsonBody(req, res) : undefined
+    if (body === INVALID_BODY) return
+
+    const sessionId = req.headers['mcp-session-id']
+    const session = typeof sessionId === 'string' ? this.sessions.get(sessionId) : undefined
+    if (session) {
+      if (!isSessionToken(session, notionToken)) {
+        sendJsonRpcError(res, 403, -32001, 'Forbidden: the session was opened with another token')
+        return
+      }
+      if (!(session.transport instanceof StreamableHTTPServerTransport)) {
+        sendJsonRpcError(res, 400, -32000, 'Bad Request: session uses the SSE transport')
+        return
+      }
+      this.trackRequest(session, res)
+      await session.transport.handleRequest(req, res, body)
+      return
+    }
+
+    if (sessionId !== undefined || req.method !== 'POST' || !isInitializeRequest(body)) {
+      sendJsonRpcError(res, sessionId === undefined ? 400 : 404, -32000, 'Bad Request: no valid session ID provided')
+      return
+    }
+    if (this.refuseNewSession(res)) return
+
+    const proxy = this.createProxy({ notionToken })
+    const tokenFingerprint = notionToken ? fingerprintSecret(notionToken) : undefined
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: (id) => {
+        const session: Session = { transport, proxy, tokenFingerprint, openRequests: 0 }
+        this.sessions.set(id, session)
+        this.trackRequest(session, res)
+      },
+    })
+    await proxy.connect(transport)
+    // Connecting installs the server's own close handler, so the session cleanup runs after it
+    const closeServer = transport.onclose
+    transport.onclose = () => {
+      closeServer?.()
+      if (transport.sessionId) {
+        this.forgetSession(transport.sessionId)
+      }
+    }
+    await transport.handleRequest(req, res, body)
+  }
+
+  // Open a legacy SSE stream; the client posts its messages to the endpoint announced on the stream
+  private async handleSseConnection(res: ServerResponse, notionToken: string | undefined): Promise<void> {
+    if (this.refuseNewSession(res)) return
+
+    const proxy = this.createProxy({ notionToken })
+    const transport = new SSEServerTransport(SSE_MESSAGES_PATH, res)
+    const { sessionId } = transport
+    const session: Session = { transport, proxy, tokenFingerprint: notionToken ? fingerprintSecret(notionToken) : undefined, openRequests: 0 }
+    this.sessions.set(sessionId, session)
+    this.trackRequest(session, res)
+
+    res.on('close', () => {
+      this.forgetSession(sessionId)
+      proxy.close().catch(() => undefined)
+    })
+
+    await proxy.connect(transport)
+  }
+
+  private async handleSseMessage(
+    req: IncomingMessage,
+    res: ServerResponse,
+    sessionId: string | null,
+    notionToken: string | undefined,
+  ): Promise<void> {
+    const session = sessionId ? this.sessions.get(sessionId) : undefined
+    if (!session || !(session.transport instanceof SSEServerTransport)) {
+      sendJsonRpcError(res, 404, -32000, 'Session not found')
+      return
+    }
+    if (!isSessionToken(session, notionToken)) {
+      sendJsonRpcError(res, 403, -32001, 'Forbidden: the session was opened with another token')
+      return
+    }
+
+    const body = await readJsonBody(req, res)
+    if (body === INVALID_BODY) return
+    this.trackRequest(session, res)
+    await session.transport.handlePostMessage(req, res, body)
+  }
+
+  // Whether a Host header, or an Origin header when isOrigin is set, names an allowed host
+  private isAllowedHost(header: string | undefined, isOrigin = false): boolean {
+    if (header === undefined) return false
+    try {
+      return this.allowedHosts.has(normalizeHostname(new URL(isOrigin ? header : `http://${header}`).hostname))
+    } catch {
+      return false
+    }
+  }
+
+  // Answer with an error when no more sessions may be opened
+  private refuseNewSession(res: ServerResponse): boolean {
+    if (this.sessions.size < this.maxSessions) return false
+    sendJsonRpcError(res, 503, -32000, 'Service Unavailable: too many open sessions')
+    return true
+  }
+
+  // Count a request as open until its response ends, and start the idle timeout once none is left
+  private trackRequest(session: Session, res: ServerResponse): void {
+    clearTimeout(session.idleTimer)
+    session.openRequests++
+    res.once('close', () => {
+      session.openRequests--
+      if (session.openRequests === 0 && [...this.sessions.values()].includes(session)) {
+        session.idleTimer = setTimeout(() => session.proxy.close().catch(() => undefined), this.sessionIdleTimeoutMs)
+        session.idleTimer.unref()
+      }
+    })
+  }
+
+  private forgetSession(sessionId: string): void {
+    clearTimeout(this.sessions.get(sessionId)?.idleTimer)
+    this.sessions.delete(sessionId)
+  }
+}
+
+/**
+ * Start the HTTP server
+ * @param createProxy Creates the proxy serving a new session
+ * @param options Bind address and port
+ * @returns The running server and the address it is bound to
+ */
+export async function startHttpServer(
+  createProxy: ProxyFactory,
+  options: HttpServerOptions,
+): Promise<{ server: McpHttpServer; address: AddressInfo }> {
+  const server = new McpHttpServer(createProxy, options)
+  const address = await server.listen()
+  return { server, address }
+}
+
+// Hostnames a server bound to the given address is reached by from the same machine
+function defaultAllowedHosts(bindAddress: string): string[] {
+  return WILDCARD_ADDRESSES.includes(bindAddress) ? LOOPBACK_HOSTNAMES : [...LOOPBACK_HOSTNAMES, bindAddress]
+}
+
+// Hostnames compare case-insensitively, and IPv6 addresses are bracketed in URLs
+function normalizeHostname(hostname: string): string {
+  return hostname.toLowerCase().replace(/^\[(.*)\]$/, '$1')
+}
+
+// Whether a request presents the token its session was opened with, if any
+function isSessionToken(session: Session, notionToken: string | undefined): boolean {
+  return session.tokenFingerprint === (notionToken ? fingerprintSecret(notionToken) : undefined)
+}
+
+// Marker returned once an error response has been sent for an unusable body
+const INVALID_BODY = Symbol('invalid body')
+
+// Read and parse a JSON request body, answering the request itself when the body is unusable
+async function readJsonBody(req: IncomingMessage, res: ServerResponse): Promise<unknown> {
+  const chunks: Buffer[] = []
+  let size = 0
+  for await (const chunk of req) {
+    size += chunk.length
+    if (size > MAX_BODY_BYTES) {
+      sendJsonRpcError(res, 413, -32600, 'Request body too large')
+      return INVALID_BODY
+    }
+    chunks.push(chunk)
+  }
+
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString('utf8'))
+  } catch {
+    sendJsonRpcError(res, 400, -32700, 'Parse error: invalid JSON')
+    return INVALID_BODY
+  }
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' }).end(JSON.stringify(body))
+}
+
+function sendJsonRpcError(res: ServerResponse, status: number, code: number, message: string): void {
+  sendJson(res, status, { jsonrpc: '2.0', error: { code, message }, id: null })
+}
@@ -4,7 +4,9 @@ import path from 'node:path'
 import { OpenAPIV3 } from 'openapi-types'
 import OpenAPISchemaValidator from 'openapi-schema-validator'
 
-import { MCPProxy } from './openapi-mcp-server/mcp/proxy'
+import { RequestScheduler } from './openapi-mcp-server/client/request-scheduler'
+import { MCPProxy, MCPProxyOptions } from './openapi-mcp-server/mcp/proxy'
+import { fingerprintSecret } from './openapi-mcp-server/mcp/secrets'
 
 export class ValidationError extends Error {
   constructor(public errors: any[]) {
@@ -42,9 +44,42 @@ async function loadOpenApiSpec(specPath: string, baseUrl: string | undefined): P
   }
 }
 
-export async function initProxy(specPath: string, baseUrl: string |undefined) {
+export async function initProxy(specPath: string, baseUrl: string |undefined, options: MCPProxyOptions = {}) {
+  const createProxy = await initProxyFactory(specPath, baseUrl, options)
+  return createProxy()
+}
+
+export type ProxySessionOptions = {
+  /** Notion integration token supplied by the session, e.g. in the Authorization header of an HTTP connection */
+  notionToken?: string
+}
+
+// Load the spec once and create a proxy per session. Notion rate limits each integration,
+// so sessions using the same token share one request scheduler. Sessions with their own
+// token also get their own directory in the persistent cache, so that content readable
+// by one integration is never served to another.
+export async function initProxyFactory(specPath: string, baseUrl: string | undefined, options: MCPProxyOptions = {}) {
   const openApiSpec = await loadOpenApiSpec(specPath, baseUrl)
-  const proxy = new MCPProxy('Notion API', openApiSpec)
+  const defaultScheduler = options.requestScheduler ?? new RequestScheduler(options.rateLimit)
+  const tokenSchedulers: Map<string, RequestScheduler> = new Map()
 
-  return proxy
+  return (session: ProxySessionOptions = {}) => {
+    if (!session.notionToken) {
+      return new MCPProxy('Notion API', openApiSpec, { ...options, requestScheduler: defaultScheduler })
+    }
+
+    const fingerprint = fingerprintSecret(session.notionToken)
+    let requestScheduler = tokenSchedulers.get(fingerprint)
+    if (!requestScheduler) {
+      requestScheduler = new RequestScheduler(options.rateLimit)
+      tokenSchedulers.set(fingerprint, requestScheduler)
+    }
+
+    return new MCPProxy('Notion API', openApiSpec, {
+      ...options,
+      requestScheduler,
+      notionToken: session.notionToken,
+      cache: options.cache?.path ? { ...options.cache, path: path.join(options.cache.path, fingerprint) } : options.cache,
+    })
+  }
 }
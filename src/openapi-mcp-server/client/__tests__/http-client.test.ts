@@ -1,4 +1,5 @@
 import { HttpClient, HttpClientError } from '../http-client'
+import { ReadOnlyOperationError } from '../../openapi/read-only'
 import { OpenAPIV3 } from 'openapi-types'
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
 import OpenAPIClientAxios from 'openapi-client-axios'
@@ -240,6 +241,107 @@ describe('HttpClient', () => {
     })
   })
 
+  describe('retries', () => {
+    const retryableOperation = { ...getPetOperation, method: 'get', path: '/pets/{petId}' }
+    const unavailableError = {
+      response: {
+        status: 503,
+        statusText: 'Service Unavailable',
+        data: { code: 'service_unavailable' },
+        headers: {},
+      },
+    }
+
+    beforeEach(() => {
+      client = new HttpClient({ baseUrl: 'https://api.example.com', retry: { baseDelayMs: 1, maxDelayMs: 5 } }, sampleSpec)
+    })
+
+    it('retries idempotent operations on transient errors', async () => {
+      mockApi.getPet.mockRejectedValueOnce(unavailableError).mockResolvedValueOnce({
+        data: { id: 1 },
+        status: 200,
+        headers: {},
+      })
+
+      const response = await client.executeOperation(retryableOperation, { petId: 1 })
+
+      expect(response.data).toEqual({ id: 1 })
+      expect(mockApi.getPet).toHaveBeenCalledTimes(2)
+    })
+
+    it('honors the Retry-After header', async () => {
+      const setTimeoutSpy = vi.spyOn(globalThis, 'setTimeout')
+      mockApi.getPet
+        .mockRejectedValueOnce({
+          response: {
+            status: 429,
+            statusText: 'Too Many Requests',
+            data: { code: 'rate_limited' },
+            headers: { 'retry-after': '0.002' },
+          },
+        })
+        .mockResolvedValueOnce({ data: { id: 1 }, status: 200, headers: {} })
+
+      await client.executeOperation(retryableOperation, { petId: 1 })
+
+      expect(setTimeoutSpy).toHaveBeenCalledWith(expect.any(Function), 2)
+      setTimeoutSpy.mockRestore()
+    })
+
+    it('reports the retry count when retries are exhausted', async () => {
+      mockApi.getPet.mockRejectedValue(unavailableError)
+
+      await expect(client.executeOperation(retryableOperation, { petId: 1 })).rejects.toMatchObject({
+        status: 503,
+        retries: 3,
+      })
+      expect(mockApi.getPet).toHaveBeenCalledTimes(4)
+      mockApi.getPet.mockReset()
+    })
+
+    it('does not retry non-idempotent operations', async () => {
+      mockApi.testOperation = vi.fn().mockRejectedValue(unavailableError)
+      const postOperation = {
+        operationId: 'testOperation',
+        method: 'post',
+        path: '/test',
+        responses: { '200': { description: 'OK' } },
+      }
+
+      await expect(client.executeOperation(postOperation, {})).rejects.toMatchObject({ status: 503, retries: 0 })
+      expect(mockApi.testOperation).toHaveBeenCalledTimes(1)
+    })
+
+    it('stops retrying once the request is aborted', async () => {
+      client = new HttpClient({ baseUrl: 'https://api.example.com', retry: { baseDelayMs: 60000, maxDelayMs: 60000 } }, sampleSpec)
+      const controller = new AbortController()
+      mockApi.getPet.mockImplementationOnce(async () => {
+        // Abort while the client waits before its next attempt
+        setTimeout(() => controller.abort(), 0)
+        throw unavailableError
+      })
+
+      await expect(
+        client.executeOperation(retryableOperation, { petId: 1 }, { signal: controller.signal }),
+      ).rejects.toMatchObject({ name: 'RequestAbortedError' })
+      expect(mockApi.getPet).toHaveBeenCalledTimes(1)
+    })
+
+    it('passes the signal to the request and never starts an aborted one', async () => {
+      const controller = new AbortController()
+      mockApi.getPet.mockResolvedValueOnce({ data: { id: 1 }, status: 200, headers: {} })
+
+      await client.executeOperation(retryableOperation, { petId: 1 }, { signal: controller.signal })
+      expect(mockApi.getPet).toHaveBeenCalledWith(expect.anything(), undefined, expect.objectContaining({ signal: controller.signal }))
+
+      controller.abort()
+      await expect(client.executeOperation(retryableOperation, { petId: 1 }, { signal: controller.signal })).rejects.toThrow(
+        'Request aborted',
+      )
+      expect(mockApi.getPet).toHaveBeenCalledTimes(1)
+    })
+  })
+
   it('should send body parameters in request body for POST operations', async () => {
     // Setup mock API with the new operation
     mockApi.testOperation = vi.fn().mockResolvedValue({
@@ -296,6 +398,35 @@ describe('HttpClient', () => {
     expect(mockApi.testOperation).toHaveBeenCalledWith({}, { foo: 'bar' }, { headers: { 'Content-Type': 'application/json' } })
   })
 
+  it('refuses mutating operations in read-only mode', async () => {
+    const readOnlyClient = new HttpClient({ baseUrl: 'https://api.example.com', readOnly: true }, sampleSpec)
+    const deleteOperation = {
+      operationId: 'testOperation',
+      method: 'delete',
+      path: '/test',
+      responses: { '204': { description: 'Deleted' } },
+    }
+
+    await expect(readOnlyClient.executeOperation(deleteOperation, {})).rejects.toThrow(ReadOnlyOperationError)
+    expect(mockApi.testOperation).not.toHaveBeenCalled()
+  })
+
+  it('allows allowlisted POST operations in read-only mode', async () => {
+    mockApi.testOperation = vi.fn().mockResolvedValue({ data: { results: [] }, status: 200, headers: {} })
+    const readOnlyClient = new HttpClient({ baseUrl: 'https://api.example.com', readOnly: true }, sampleSpec)
+    ;(await readOnlyClient['api'] as any)['post-search'] = mockApi.testOperation
+    const searchOperation = {
+      operationId: 'post-search',
+      method: 'post',
+      path: '/v1/search',
+      responses: { '200': { description: 'OK' } },
+    }
+
+    const response = await readOnlyClient.executeOperation(searchOperation, { query: 'roadmap' })
+
+    expect(response.data).toEqual({ results: [] })
+  })
+
   it('should handle query, path, and body parameters correctly', async () => {
     mockApi.complexOperation = vi.fn().mockResolvedValue({
       data: { success: true },
@@ -0,0 +1,100 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { RequestScheduler } from '../request-scheduler'
+
+describe('RequestScheduler', () => {
+  beforeEach(() => {
+    vi.useFakeTimers()
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  // A task that stays in flight until resolved from the test
+  const deferredTask = () => {
+    let resolve!: (value: string) => void
+    const promise = new Promise<string>((r) => (resolve = r))
+    const task = vi.fn(() => promise)
+    return { task, resolve }
+  }
+
+  it('limits the number of requests in flight', async () => {
+    const scheduler = new RequestScheduler({ requestsPerSecond: Infinity, maxConcurrent: 2 })
+    const tasks = [deferredTask(), deferredTask(), deferredTask()]
+
+    const results = tasks.map(({ task }) => scheduler.schedule(task))
+    await vi.advanceTimersByTimeAsync(0)
+
+    expect(tasks[0].task).toHaveBeenCalled()
+    expect(tasks[1].task).toHaveBeenCalled()
+    expect(tasks[2].task).not.toHaveBeenCalled()
+    expect(scheduler.activeCount).toBe(2)
+    expect(scheduler.pendingCount).toBe(1)
+
+    tasks[0].resolve('first')
+    await vi.advanceTimersByTimeAsync(0)
+
+    expect(tasks[2].task).toHaveBeenCalled()
+    tasks[1].resolve('second')
+    tasks[2].resolve('third')
+    await expect(Promise.all(results)).resolves.toEqual(['first', 'second', 'third'])
+  })
+
+  it('spreads requests according to the token bucket rate', async () => {
+    const scheduler = new RequestScheduler({ requestsPerSecond: 2, burst: 2, maxConcurrent: 10 })
+    const task = vi.fn().mockResolvedValue('ok')
+
+    for (let i = 0; i < 4; i++) {
+      scheduler.schedule(task)
+    }
+    await vi.advanceTimersByTimeAsync(0)
+    expect(task).toHaveBeenCalledTimes(2)
+
+    await vi.advanceTimersByTimeAsync(500)
+    expect(task).toHaveBeenCalledTimes(3)
+
+    await vi.advanceTimersByTimeAsync(500)
+    expect(task).toHaveBeenCalledTimes(4)
+  })
+
+  it('holds back queued requests while paused', async () => {
+    const scheduler = new RequestScheduler({ requestsPerSecond: Infinity, maxConcurrent: 5 })
+    const task = vi.fn().mockResolvedValue('ok')
+
+    scheduler.pause(1000)
+    const result = scheduler.schedule(task)
+
+    await vi.advanceTimersByTimeAsync(999)
+    expect(task).not.toHaveBeenCalled()
+
+    await vi.advanceTimersByTimeAsync(1)
+    await expect(result).resolves.toBe('ok')
+  })
+
+  it('drops queued requests whose signal is aborted', async () => {
+    const scheduler = new RequestScheduler({ requestsPerSecond: Infinity, maxConcurrent: 1 })
+    const running = deferredTask()
+    const queued = vi.fn().mockResolvedValue('ok')
+    const controller = new AbortController()
+
+    scheduler.schedule(running.task)
+    const result = scheduler.schedule(queued, controller.signal)
+    await vi.advanceTimersByTimeAsync(0)
+    expect(scheduler.pendingCount).toBe(1)
+
+    controller.abort('client cancelled')
+    await expect(result).rejects.toThrow('Request aborted: client cancelled')
+    expect(scheduler.pendingCount).toBe(0)
+
+    running.resolve('done')
+    await vi.advanceTimersByTimeAsync(0)
+    expect(queued).not.toHaveBeenCalled()
+  })
+
+  it('propagates task failures', async () => {
+    const scheduler = new RequestScheduler()
+
+    await expect(scheduler.schedule(() => Promise.reject(new Error('boom')))).rejects.toThrow('boom')
+    expect(scheduler.activeCount).toBe(0)
+  })
+})
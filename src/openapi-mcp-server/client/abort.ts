@@ -0,0 +1,26 @@
+/**
+ * Error thrown when a request is abandoned because its AbortSignal fired
+ */
+export class RequestAbortedError extends Error {
+  constructor(public reason?: unknown) {
+    super(typeof reason === 'string' && reason ? `Request aborted: ${reason}` : 'Request aborted')
+    this.name = 'RequestAbortedError'
+  }
+}
+
+/**
+ * The error to throw for an aborted signal. Callers may abort with any value
+ * (MCP cancellation uses a free-form string), so non-errors are wrapped.
+ */
+export function abortError(signal: AbortSignal): Error {
+  return signal.reason instanceof Error && signal.reason.name !== 'AbortError' ? signal.reason : new RequestAbortedError(signal.reason)
+}
+
+/**
+ * Throw if the signal has been aborted
+ */
+export function throwIfAborted(signal: AbortSignal | undefined): void {
+  if (signal?.aborted) {
+    throw abortError(signal)
+  }
+}
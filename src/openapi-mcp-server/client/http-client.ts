@@ -4,10 +4,44 @@ import type { AxiosInstance } from 'axios'
 import FormData from 'form-data'
 import fs from 'fs'
 import { isFileUploadParameter } from '../openapi/file-upload'
+import { isIdempotentOperation, isReadOnlyOperation, ReadOnlyOperationError } from '../openapi/read-only'
+import { abortError, throwIfAborted } from './abort'
+import { RequestScheduler, RequestSchedulerConfig } from './request-scheduler'
+
+export type RetryConfig = {
+  /** Maximum number of retries after the initial attempt (default: 3) */
+  maxRetries?: number
+  /** Base delay of the exponential backoff in milliseconds (default: 500) */
+  baseDelayMs?: number
+  /** Upper bound for a single delay in milliseconds, including Retry-After (default: 30000) */
+  maxDelayMs?: number
+}
 
 export type HttpClientConfig = {
   baseUrl: string
   headers?: Record<string, string>
+  /** Refuse to execute operations that may mutate data (default: false) */
+  readOnly?: boolean
+  /** Retry policy for rate-limited and temporarily unavailable responses */
+  retry?: RetryConfig
+  /** Rate and concurrency limits shared by every request sent through this client */
+  rateLimit?: RequestSchedulerConfig
+  /** Scheduler shared with other clients, e.g. one per HTTP session; takes precedence over rateLimit */
+  scheduler?: RequestScheduler
+}
+
+// Rate limiting and transient gateway errors worth retrying
+const RETRYABLE_STATUS_CODES = [429, 502, 503, 504]
+
+const DEFAULT_RETRY_CONFIG: Required<RetryConfig> = {
+  maxRetries: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 30000,
+}
+
+export type ExecuteOptions = {
+  /** Aborts the request, including queued attempts and retry delays */
+  signal?: AbortSignal
 }
 
 export type HttpClientResponse<T = any> = {
@@ -22,6 +56,7 @@ export class HttpClientError extends Error {
     public status: number,
     public data: any,
     public headers?: Headers,
+    public retries: number = 0,
   ) {
     super(`${status} ${message}`)
     this.name = 'HttpClientError'
@@ -31,8 +66,18 @@ export class HttpClientError extends Error {
 export class HttpClient {
   private api: Promise<AxiosInstance>
   private client: OpenAPIClientAxios
+  private readOnly: boolean
+  private retryConfig: Required<RetryConfig>
+  private scheduler: RequestScheduler
 
   constructor(config: HttpClientConfig, openApiSpec: OpenAPIV3.Document | OpenAPIV3_1.Document) {
+    this.readOnly = config.readOnly ?? false
+    this.retryConfig = {
+      maxRetries: config.retry?.maxRetries ?? DEFAULT_RETRY_CONFIG.maxRetries,
+      baseDelayMs: config.retry?.baseDelayMs ?? DEFAULT_RETRY_CONFIG.baseDelayMs,
+      maxDelayMs: config.retry?.maxDelayMs ?? DEFAULT_RETRY_CONFIG.maxDelayMs,
+    }
+    this.scheduler = config.scheduler ?? new RequestScheduler(config.rateLimit)
     // @ts-expect-error
     this.client = new (OpenAPIClientAxios.default ?? OpenAPIClientAxios)({
       definition: openApiSpec,
@@ -103,13 +148,20 @@ export class HttpClient {
   async executeOperation<T = any>(
     operation: OpenAPIV3.OperationObject & { method: string; path: string },
     params: Record<string, any> = {},
+    options: ExecuteOptions = {},
   ): Promise<HttpClientResponse<T>> {
+    const { signal } = options
+    throwIfAborted(signal)
     const api = await this.api
     const operationId = operation.operationId
     if (!operationId) {
       throw new Error('Operation ID is required')
     }
 
+    if (this.readOnly && !isReadOnlyOperation(operation)) {
+      throw new ReadOnlyOperationError(operationId, operation.method)
+    }
+
     // Handle file uploads if present
     const formData = await this.prepareFileUpload(operation, params)
 
@@ -148,43 +200,114 @@ export class HttpClient {
       throw new Error(`Operation ${operationId} not found`)
     }
 
-    try {
-      // If we have form data, we need to set the correct headers
-      const hasBody = Object.keys(bodyParams).length > 0
-      const headers = formData
-        ? formData.getHeaders()
-        : { ...(hasBody ? { 'Content-Type': 'application/json' } : { 'Content-Type': null }) }
-      const requestConfig = {
-        headers: {
-          ...headers,
-        },
-      }
+    // If we have form data, we need to set the correct headers
+    const hasBody = Object.keys(bodyParams).length > 0
+    const headers = formData
+      ? formData.getHeaders()
+      : { ...(hasBody ? { 'Content-Type': 'application/json' } : { 'Content-Type': null }) }
+    const requestConfig = {
+      headers: {
+        ...headers,
+      },
+      signal,
+    }
 
-      // first argument is url parameters, second is body parameters
-      const response = await operationFn(urlParameters, hasBody ? bodyParams : undefined, requestConfig)
+    // Only operations that can be repeated safely are retried
+    const canRetry = isIdempotentOperation(operation)
 
-      // Convert axios headers to Headers object
-      const responseHeaders = new Headers()
-      Object.entries(response.headers).forEach(([key, value]) => {
-        if (value) responseHeaders.append(key, value.toString())
-      })
+    for (let attempt = 0; ; attempt++) {
+      try {
+        // first argument is url parameters, second is body parameters
+        const response = await this.scheduler.schedule<any>(
+          () => operationFn(urlParameters, hasBody ? bodyParams : undefined, requestConfig),
+          signal,
+        )
 
-      return {
-        data: response.data,
-        status: response.status,
-        headers: responseHeaders,
-      }
-    } catch (error: any) {
-      if (error.response) {
-        console.error('Error in http client', error)
-        const headers = new Headers()
-        Object.entries(error.response.headers).forEach(([key, value]) => {
-          if (value) headers.append(key, value.toString())
-        })
-
-        throw new HttpClientError(error.response.statusText || 'Request failed', error.response.status, error.response.data, headers)
+        return {
+          data: response.data,
+          status: response.status,
+          headers: toHeaders(response.headers),
+        }
+      } catch (error: any) {
+        // axios rejects aborted requests with its own CanceledError; report the abort reason instead
+        throwIfAborted(signal)
+
+        if (error.response) {
+          const headers = toHeaders(error.response.headers)
+
+          if (canRetry && attempt < this.retryConfig.maxRetries && RETRYABLE_STATUS_CODES.includes(error.response.status)) {
+            const delay = this.getRetryDelay(attempt, headers)
+            // Rate limits apply to the whole integration, so hold back every queued request
+            if (error.response.status === 429) {
+              this.scheduler.pause(delay)
+            }
+            await sleep(delay, signal)
+            continue
+          }
+
+          throw new HttpClientError(
+            error.response.statusText || 'Request failed',
+            error.response.status,
+            error.response.data,
+            headers,
+            attempt,
+          )
+        }
+        throw error
       }
-      throw error
     }
   }
+
+  /**
+   * Delay before the next retry: the server's Retry-After when present,
+   * otherwise exponential backoff with full jitter
+   */
+  private getRetryDelay(attempt: number, headers: Headers): number {
+    const retryAfterMs = parseRetryAfter(headers.get('retry-after'))
+    if (retryAfterMs !== null) {
+      return Math.min(retryAfterMs, this.retryConfig.maxDelayMs)
+    }
+
+    const backoff = Math.min(this.retryConfig.maxDelayMs, this.retryConfig.baseDelayMs * 2 ** attempt)
+    return Math.random() * backoff
+  }
+}
+
+// Convert axios headers to Headers object
+function toHeaders(rawHeaders: Record<string, any> | undefined): Headers {
+  const headers = new Headers()
+  Object.entries(rawHeaders || {}).forEach(([key, value]) => {
+    if (value) headers.append(key, value.toString())
+  })
+  return headers
+}
+
+/**
+ * Delay requested by a Retry-After header, which is either a number of seconds or an HTTP date
+ * @returns The delay in milliseconds, or null if the header is missing or invalid
+ */
+export function parseRetryAfter(value: string | null): number | null {
+  if (!value) return null
+
+  const seconds = Number(value)
+  if (!Number.isNaN(seconds)) {
+    return Math.max(0, seconds * 1000)
+  }
+
+  const date = Date.parse(value)
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now())
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer)
+      reject(abortError(signal!))
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort)
+      resolve()
+    }, ms)
+    signal?.addEventListener('abort', onAbort, { once: true })
+  })
 }
@@ -0,0 +1,140 @@
+import { abortError } from './abort'
+
+export type RequestSchedulerConfig = {
+  /** Sustained number of requests started per second; Infinity disables rate limiting (default: 3) */
+  requestsPerSecond?: number
+  /** Number of requests that may start back to back before the rate applies (default: requestsPerSecond) */
+  burst?: number
+  /** Maximum number of requests in flight at once (default: 3) */
+  maxConcurrent?: number
+}
+
+type QueuedTask = {
+  run: () => void
+}
+
+/**
+ * Schedules requests through a token bucket and a concurrency limit.
+ *
+ * Tasks are started in FIFO order once both a token and a concurrency slot are
+ * available. A scheduler can also be paused, e.g. when the server answers with
+ * Retry-After, so that no queued request is sent before the pause ends.
+ */
+export class RequestScheduler {
+  private readonly requestsPerSecond: number
+  private readonly burst: number
+  private readonly maxConcurrent: number
+  private tokens: number
+  private lastRefill: number
+  private pausedUntil = 0
+  private inFlight = 0
+  private queue: QueuedTask[] = []
+  private timer: NodeJS.Timeout | null = null
+
+  constructor(config: RequestSchedulerConfig = {}) {
+    this.requestsPerSecond = positiveOr(config.requestsPerSecond, 3)
+    this.burst = Number.isFinite(this.requestsPerSecond)
+      ? Math.max(1, positiveOr(config.burst, this.requestsPerSecond))
+      : Infinity
+    this.maxConcurrent = Math.max(1, positiveOr(config.maxConcurrent, 3))
+    this.tokens = this.burst
+    this.lastRefill = Date.now()
+  }
+
+  /**
+   * Run a task once the rate and concurrency limits allow it
+   * @param task Function starting the request
+   * @param signal Removes the task from the queue when aborted before it started
+   * @returns The task's result
+   */
+  schedule<T>(task: () => Promise<T>, signal?: AbortSignal): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(abortError(signal))
+        return
+      }
+
+      const onAbort = () => {
+        this.queue = this.queue.filter((queued) => queued !== entry)
+        reject(abortError(signal!))
+      }
+      const entry: QueuedTask = {
+        run: () => {
+          signal?.removeEventListener('abort', onAbort)
+          this.inFlight++
+          Promise.resolve()
+            .then(task)
+            .then(resolve, reject)
+            .finally(() => {
+              this.inFlight--
+              this.drain()
+            })
+        },
+      }
+      signal?.addEventListener('abort', onAbort, { once: true })
+      this.queue.push(entry)
+      this.drain()
+    })
+  }
+
+  /**
+   * Hold back every queued request for the given duration
+   * @param ms Pause duration in milliseconds
+   */
+  pause(ms: number): void {
+    this.pausedUntil = Math.max(this.pausedUntil, Date.now() + ms)
+    this.drain()
+  }
+
+  /** Number of requests currently running */
+  get activeCount(): number {
+    return this.inFlight
+  }
+
+  /** Number of requests waiting to start */
+  get pendingCount(): number {
+    return this.queue.length
+  }
+
+  private drain(): void {
+    while (this.queue.length > 0 && this.inFlight < this.maxConcurrent) {
+      const wait = this.timeUntilNextStart()
+      if (wait > 0) {
+        this.scheduleDrain(wait)
+        return
+      }
+      this.tokens -= 1
+      this.queue.shift()!.run()
+    }
+  }
+
+  // Milliseconds until the next request may start, consuming refilled tokens along the way
+  private timeUntilNextStart(): number {
+    const now = Date.now()
+    if (now < this.pausedUntil) {
+      return this.pausedUntil - now
+    }
+    if (!Number.isFinite(this.requestsPerSecond)) {
+      return 0
+    }
+
+    this.tokens = Math.min(this.burst, this.tokens + ((now - this.lastRefill) / 1000) * this.requestsPerSecond)
+    this.lastRefill = now
+    if (this.tokens >= 1) {
+      return 0
+    }
+    return Math.ceil(((1 - this.tokens) / this.requestsPerSecond) * 1000)
+  }
+
+  private scheduleDrain(ms: number): void {
+    if (this.timer) return
+    this.timer = setTimeout(() => {
+      this.timer = null
+      this.drain()
+    }, ms)
+  }
+}
+
+function positiveOr(value: number | undefined, fallback: number): number {
+  return value !== undefined && value > 0 ? value : fallback
+}
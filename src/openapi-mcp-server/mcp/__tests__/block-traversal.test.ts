@@ -0,0 +1,105 @@
+import { describe, expect, it, vi } from 'vitest'
+import {
+  ChildrenPage,
+  decodeTraversalCursor,
+  encodeTraversalCursor,
+  readBlockSlice,
+  sliceSize,
+  startTraversal,
+  TraversalPosition,
+} from '../block-traversal'
+
+// root
+// ├── a (children: a1, a2)
+// ├── b
+// └── c (children: c1 (children: c1x))
+// Listings hold two children per page
+const tree: Record<string, string[]> = {
+  root: ['a', 'b', 'c'],
+  a: ['a1', 'a2'],
+  c: ['c1'],
+  c1: ['c1x'],
+}
+
+const fetchChildren = vi.fn(async (blockId: string, startCursor?: string): Promise<ChildrenPage> => {
+  const children = tree[blockId] ?? []
+  const start = startCursor ? children.indexOf(startCursor) : 0
+  const page = children.slice(start, start + 2)
+  const next = children[start + 2]
+  return {
+    results: page.map((id) => ({ object: 'block', id, has_children: id in tree })),
+    has_more: next !== undefined,
+    next_cursor: next ?? null,
+  }
+})
+
+async function readAll(position: TraversalPosition, maxBlocks: number) {
+  const slices: string[][] = []
+  let next: TraversalPosition | undefined = position
+  while (next) {
+    // Positions go through their cursor, as they would between two tool calls
+    const slice = await readBlockSlice(decodeTraversalCursor(encodeTraversalCursor(next))!, fetchChildren, maxBlocks)
+    slices.push(slice.blocks.map((block) => `${block.id}@${block.depth}`))
+    next = slice.next
+  }
+  return slices
+}
+
+describe('readBlockSlice', () => {
+  it('reads the tree depth first in bounded slices', async () => {
+    expect(await readAll(startTraversal('root'), 3)).toEqual([
+      ['a@1', 'a1@2', 'a2@2'],
+      ['b@1', 'c@1', 'c1@2'],
+      ['c1x@3'],
+    ])
+  })
+
+  it('only returns a next position when blocks remain', async () => {
+    expect(await readAll(startTraversal('root'), 7)).toEqual([['a@1', 'a1@2', 'a2@2', 'b@1', 'c@1', 'c1@2', 'c1x@3']])
+  })
+
+  it('does not descend below the maximum depth', async () => {
+    expect(await readAll(startTraversal('root', 2), 10)).toEqual([['a@1', 'b@1', 'c@1']])
+  })
+
+  it('only requests the listing pages it reads', async () => {
+    fetchChildren.mockClear()
+    // The children of `a` are listed to make sure that a next slice exists
+    const first = await readBlockSlice(startTraversal('root'), fetchChildren, 1)
+    expect(fetchChildren.mock.calls).toEqual([
+      ['root', undefined],
+      ['a', undefined],
+    ])
+
+    fetchChildren.mockClear()
+    const second = await readBlockSlice(first.next!, fetchChildren, 2)
+    expect(second.blocks.map((block) => block.id)).toEqual(['a1', 'a2'])
+    expect(fetchChildren.mock.calls).toEqual([
+      ['a', undefined],
+      ['root', undefined],
+    ])
+
+    fetchChildren.mockClear()
+    await readBlockSlice(second.next!, fetchChildren, 1)
+    expect(fetchChildren.mock.calls).toEqual([
+      ['root', undefined],
+      ['root', 'c'],
+    ])
+  })
+})
+
+describe('traversal cursors', () => {
+  it('rejects cursors that are not traversal positions', () => {
+    expect(decodeTraversalCursor('not-a-cursor')).toBeUndefined()
+    expect(decodeTraversalCursor(Buffer.from(JSON.stringify({ id: 'x', offset: 0 })).toString('base64url'))).toBeUndefined()
+  })
+})
+
+describe('sliceSize', () => {
+  it('defaults to 100 blocks and caps at 1000', () => {
+    expect(sliceSize(undefined)).toBe(100)
+    expect(sliceSize(25)).toBe(25)
+    expect(sliceSize(5000)).toBe(1000)
+    expect(sliceSize(-1)).toBe(100)
+  })
+})
@@ -0,0 +1,57 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { LRUCache } from '../cache'
+
+describe('LRUCache', () => {
+  beforeEach(() => {
+    vi.useFakeTimers()
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('evicts the least recently used entry beyond the entry limit', () => {
+    const cache = new LRUCache<string>({ maxEntries: 2 })
+    cache.set('a', 'A')
+    cache.set('b', 'B')
+    cache.get('a')
+    cache.set('c', 'C')
+
+    expect(cache.keys()).toEqual(['a', 'c'])
+    expect(cache.stats().evictions).toBe(1)
+  })
+
+  it('evicts entries beyond the byte limit and skips oversized values', () => {
+    const cache = new LRUCache<string>({ maxBytes: 15 })
+    cache.set('a', 'x'.repeat(8))
+    cache.set('b', 'y'.repeat(8))
+
+    expect(cache.keys()).toEqual(['b'])
+    expect(cache.stats().bytes).toBe(10)
+
+    cache.set('c', 'z'.repeat(30))
+    expect(cache.has('c')).toBe(false)
+    expect(cache.keys()).toEqual(['b'])
+  })
+
+  it('expires entries after their TTL', () => {
+    const cache = new LRUCache<string>({ ttlMs: 1000 })
+    cache.set('a', 'A')
+
+    vi.advanceTimersByTime(999)
+    expect(cache.get('a')).toBe('A')
+
+    vi.advanceTimersByTime(1)
+    expect(cache.get('a')).toBeUndefined()
+    expect(cache.stats()).toMatchObject({ entries: 0, hits: 1, misses: 1, stale: 1 })
+  })
+
+  it('treats entries with another version as stale', () => {
+    const cache = new LRUCache<string>()
+    cache.set('children', 'cached', '2024-01-01T00:00:00.000Z')
+
+    expect(cache.get('children', '2024-01-01T00:00:00.000Z')).toBe('cached')
+    expect(cache.get('children', '2024-02-01T00:00:00.000Z')).toBeUndefined()
+    expect(cache.has('children')).toBe(false)
+  })
+})
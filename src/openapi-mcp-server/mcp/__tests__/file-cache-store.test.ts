@@ -0,0 +1,146 @@
+import fs from 'node:fs'
+import os from 'node:os'
+import path from 'node:path'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { FileCacheStore } from '../file-cache-store'
+
+describe('FileCacheStore', () => {
+  let directory: string
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'notion-cache-'))
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+    fs.rmSync(directory, { recursive: true, force: true })
+  })
+
+  it('persists entries across instances', async () => {
+    const writer = new FileCacheStore(directory)
+    writer.set('page-1', { id: 'page-1' }, '2024-01-01T00:00:00.000Z')
+    await writer.flush()
+
+    const store = new FileCacheStore(directory)
+    expect(store.get('page-1', '2024-01-01T00:00:00.000Z')).toEqual({ id: 'page-1' })
+    expect(store.keys()).toEqual(['page-1'])
+    expect(store.stats()).toMatchObject({ entries: 1, hits: 1, misses: 0 })
+  })
+
+  it('writes entries in the background, serving them from memory until then', async () => {
+    const store = new FileCacheStore(directory)
+    store.set('page-1', { id: 'page-1' })
+    store.set('page-2', { id: 'page-2' })
+
+    expect(fs.readdirSync(directory)).toEqual([])
+    expect(store.get('page-1')).toEqual({ id: 'page-1' })
+    expect(store.keys()).toEqual(['page-2', 'page-1'])
+    expect(store.size).toBe(2)
+
+    await vi.waitFor(() => expect(fs.readdirSync(directory).sort()).toEqual(['page-1.json', 'page-2.json']))
+  })
+
+  it('does not write entries deleted before they are flushed', async () => {
+    const store = new FileCacheStore(directory)
+    store.set('page-1', { id: 'page-1' })
+
+    expect(store.delete('page-1')).toBe(true)
+    await store.flush()
+    expect(fs.readdirSync(directory)).toEqual([])
+  })
+
+  it('sees entries written by another instance sharing the directory', async () => {
+    const first = new FileCacheStore(directory)
+    const second = new FileCacheStore(directory)
+
+    first.set('page:prop', 'value')
+    await first.flush()
+    expect(second.get('page:prop')).toBe('value')
+
+    second.delete('page:prop')
+    expect(fs.readdirSync(directory)).toEqual([])
+  })
+
+  it('drops expired, outdated and unreadable entries', async () => {
+    vi.useFakeTimers()
+    const store = new FileCacheStore(directory, { ttlMs: 1000 })
+    store.set('expiring', 'value')
+    store.set('versioned', 'value', 'v1')
+    await store.flush()
+    fs.writeFileSync(path.join(directory, 'corrupt.json'), '{"key": "corr')
+
+    expect(store.get('versioned', 'v2')).toBeUndefined()
+    expect(new FileCacheStore(directory, { ttlMs: 1000 }).get('corrupt')).toBeUndefined()
+
+    vi.advanceTimersByTime(1001)
+    expect(new FileCacheStore(directory).get('expiring')).toBeUndefined()
+    expect(fs.readdirSync(directory)).toEqual([])
+  })
+
+  it('lists keys from the least to the most recently used', async () => {
+    vi.useFakeTimers()
+    const writer = new FileCacheStore(directory)
+    for (const key of ['c', 'a', 'b']) {
+      writer.set(key, key)
+      await writer.flush()
+      // File times come from the real clock; align them with the fake one
+      const now = new Date()
+      fs.utimesSync(path.join(directory, `${key}.json`), now, now)
+      vi.advanceTimersByTime(1000)
+    }
+
+    const store = new FileCacheStore(directory)
+    expect(store.keys()).toEqual(['c', 'a', 'b'])
+
+    store.get('c')
+    store.set('d', 'd')
+    store.get('a')
+    expect(store.keys()).toEqual(['b', 'c', 'd', 'a'])
+  })
+
+  it('keeps the most recent entries within the entry limit once it writes', async () => {
+    vi.useFakeTimers()
+    const store = new FileCacheStore(directory, { maxEntries: 5 })
+    for (const key of ['a', 'b', 'c']) {
+      store.set(key, key)
+      await store.flush()
+      vi.advanceTimersByTime(10)
+    }
+
+    // Opening a store does not read the directory
+    const limited = new FileCacheStore(directory, { maxEntries: 2 })
+    expect(limited.keys().sort()).toEqual(['a', 'b', 'c'])
+
+    vi.advanceTimersByTime(60 * 1000)
+    limited.set('d', 'd')
+    await limited.flush()
+    expect(limited.keys().sort()).toEqual(['c', 'd'])
+  })
+
+  it('keeps the directory within the size limit', async () => {
+    vi.useFakeTimers()
+    const store = new FileCacheStore(directory)
+    for (const key of ['a', 'b', 'c']) {
+      store.set(key, 'x'.repeat(100))
+      await store.flush()
+      vi.advanceTimersByTime(10)
+    }
+    const entryBytes = fs.statSync(path.join(directory, 'a.json')).size
+
+    vi.advanceTimersByTime(60 * 1000)
+    const limited = new FileCacheStore(directory, { maxBytes: entryBytes * 2 })
+    limited.set('d', 'x'.repeat(100))
+    await limited.flush()
+    expect(fs.readdirSync(directory).sort()).toEqual(['c.json', 'd.json'])
+  })
+
+  it('does not leave temporary files behind', async () => {
+    const store = new FileCacheStore(directory)
+    store.set('page-1', { id: 'page-1' })
+    await store.flush()
+    expect(fs.readdirSync(directory)).toEqual(['page-1.json'])
+
+    store.clear()
+    expect(fs.readdirSync(directory)).toEqual([])
+  })
+})
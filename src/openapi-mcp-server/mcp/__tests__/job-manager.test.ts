@@ -0,0 +1,118 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { JobCancelledError, JobManager } from '../job-manager'
+
+describe('JobManager', () => {
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('runs a job and keeps its result', async () => {
+    const manager = new JobManager()
+    const job = manager.start('test', { page_id: 'page-1' }, async (job) => {
+      job.progress.requestsMade += 2
+      return 'result'
+    })
+
+    expect(job.status).toBe('queued')
+    await vi.waitFor(() => expect(manager.get(job.id)?.status).toBe('done'))
+
+    const finished = manager.get(job.id)!
+    expect(finished.result).toBe('result')
+    expect(finished.progress.requestsMade).toBe(2)
+    expect(finished.finishedAt).toBeDefined()
+  })
+
+  it('records failures', async () => {
+    const manager = new JobManager()
+    const job = manager.start('test', {}, async () => {
+      throw new Error('boom')
+    })
+
+    await vi.waitFor(() => expect(manager.get(job.id)?.status).toBe('failed'))
+    expect(manager.get(job.id)?.error).toBe('boom')
+  })
+
+  it('keeps jobs queued beyond the concurrency limit', async () => {
+    const manager = new JobManager({ maxConcurrentJobs: 1 })
+    let release!: () => void
+    const first = manager.start('test', {}, () => new Promise<void>((resolve) => (release = resolve)))
+    const second = manager.start('test', {}, async () => 'second')
+
+    await vi.waitFor(() => expect(first.status).toBe('running'))
+    expect(second.status).toBe('queued')
+
+    release()
+    await vi.waitFor(() => expect(second.status).toBe('done'))
+  })
+
+  it('cancels running jobs and aborts their signal', async () => {
+    const manager = new JobManager()
+    const job = manager.start(
+      'test',
+      {},
+      (job) =>
+        new Promise((_, reject) => {
+          job.signal.addEventListener('abort', () => reject(job.signal.reason))
+        }),
+    )
+    await vi.waitFor(() => expect(job.status).toBe('running'))
+
+    manager.cancel(job.id)
+
+    expect(job.status).toBe('cancelled')
+    expect(job.signal.aborted).toBe(true)
+    expect(job.signal.reason).toBeInstanceOf(JobCancelledError)
+    await new Promise((resolve) => setTimeout(resolve, 0))
+    expect(manager.get(job.id)?.status).toBe('cancelled')
+  })
+
+  it('cancels queued jobs before they start', async () => {
+    const manager = new JobManager()
+    const run = vi.fn().mockResolvedValue('result')
+    const job = manager.start('test', {}, run)
+
+    manager.cancel(job.id)
+    await new Promise((resolve) => setTimeout(resolve, 0))
+
+    expect(job.status).toBe('cancelled')
+    expect(run).not.toHaveBeenCalled()
+  })
+
+  it('cancels every unfinished job at once', async () => {
+    const manager = new JobManager({ maxConcurrentJobs: 1 })
+    const done = manager.start('test', {}, async () => 'result')
+    await vi.waitFor(() => expect(done.status).toBe('done'))
+    const running = manager.start('test', {}, () => new Promise(() => {}))
+    const queued = manager.start('test', {}, async () => 'result')
+    await vi.waitFor(() => expect(running.status).toBe('running'))
+
+    manager.cancelAll()
+
+    expect(done.status).toBe('done')
+    expect(running.status).toBe('cancelled')
+    expect(queued.status).toBe('cancelled')
+  })
+
+  it('finds the latest job matching a predicate', () => {
+    vi.useFakeTimers()
+    const manager = new JobManager()
+    manager.start('test', { page_id: 'page-1' }, async () => 'first')
+    vi.advanceTimersByTime(10)
+    const latest = manager.start('test', { page_id: 'page-1' }, async () => 'second')
+    manager.start('test', { page_id: 'page-2' }, async () => 'other')
+
+    expect(manager.findLatest((job) => job.params.page_id === 'page-1')?.id).toBe(latest.id)
+  })
+
+  it('evicts finished jobs after their TTL', async () => {
+    vi.useFakeTimers()
+    const manager = new JobManager({ ttlMs: 1000 })
+    const job = manager.start('test', {}, async () => 'result')
+
+    await vi.advanceTimersByTimeAsync(0)
+    expect(manager.get(job.id)?.status).toBe('done')
+
+    await vi.advanceTimersByTimeAsync(1001)
+    expect(manager.get(job.id)).toBeUndefined()
+  })
+})
@@ -0,0 +1,224 @@
+import { describe, expect, it } from 'vitest'
+import {
+  getNotionObjectTitle,
+  renderBlocks,
+  renderDatabaseSchemaToMarkdown,
+  renderFlattenedBlocks,
+  renderPageToMarkdown,
+  richTextToMarkdown,
+} from '../markdown'
+
+const text = (content: string, annotations: Record<string, boolean> = {}, href: string | null = null) => ({
+  type: 'text',
+  text: { content, link: href ? { url: href } : null },
+  annotations: {
+    bold: false,
+    italic: false,
+    strikethrough: false,
+    underline: false,
+    code: false,
+    color: 'default',
+    ...annotations,
+  },
+  plain_text: content,
+  href,
+})
+
+const block = (type: string, value: Record<string, any>, children?: any[]) => ({
+  object: 'block',
+  id: `${type}-id`,
+  type,
+  has_children: !!children,
+  [type]: value,
+  ...(children ? { children } : {}),
+})
+
+describe('markdown rendering', () => {
+  describe('richTextToMarkdown', () => {
+    it('maps annotations to markdown emphasis', () => {
+      const result = richTextToMarkdown([
+        text('bold', { bold: true }),
+        text(' and '),
+        text('italic', { italic: true }),
+        text(' '),
+        text('struck', { strikethrough: true }),
+        text(' '),
+        text('x = 1', { code: true }),
+      ])
+
+      expect(result).toBe('**bold** and _italic_ ~~struck~~ `x = 1`')
+    })
+
+    it('fences inline code with more backticks than it contains', () => {
+      expect(richTextToMarkdown([text('a `b` c', { code: true })])).toBe('``a `b` c``')
+      expect(richTextToMarkdown([text('``` and `', { code: true })])).toBe('```` ``` and ` ````')
+    })
+
+    it('escapes characters that would start emphasis', () => {
+      expect(richTextToMarkdown([text('snake_case *not* [a link]')])).toBe('snake\\_case \\*not\\* \\[a link\\]')
+    })
+
+    it('keeps surrounding whitespace outside emphasis markers', () => {
+      expect(richTextToMarkdown([text(' padded ', { bold: true })])).toBe(' **padded** ')
+    })
+
+    it('renders links and inline equations', () => {
+      const result = richTextToMarkdown([
+        text('Notion', {}, 'https://notion.so'),
+        { type: 'equation', equation: { expression: 'e=mc^2' }, plain_text: 'e=mc^2' },
+      ])
+
+      expect(result).toBe('[Notion](https://notion.so)$e=mc^2$')
+    })
+  })
+
+  describe('renderBlocks', () => {
+    it('renders headings, lists and to-dos', () => {
+      const result = renderBlocks([
+        block('heading_1', { rich_text: [text('Heading')] }),
+        block('bulleted_list_item', { rich_text: [text('one')] }),
+        block('bulleted_list_item', { rich_text: [text('two')] }, [block('bulleted_list_item', { rich_text: [text('nested')] })]),
+        block('numbered_list_item', { rich_text: [text('first')] }),
+        block('numbered_list_item', { rich_text: [text('second')] }),
+        block('to_do', { rich_text: [text('done')], checked: true }),
+        block('to_do', { rich_text: [text('open')], checked: false }),
+      ])
+
+      expect(result).toBe(
+        ['## Heading', '', '- one', '- two', '  - nested', '1. first', '2. second', '- [x] done', '- [ ] open'].join('\n'),
+      )
+    })
+
+    it('renders quotes, callouts, code and dividers', () => {
+      const result = renderBlocks([
+        block('quote', { rich_text: [text('quoted')] }),
+        block('callout', { rich_text: [text('note')], icon: { type: 'emoji', emoji: '💡' } }),
+        block('code', { rich_text: [text('const a = 1')], language: 'typescript' }),
+        block('divider', {}),
+      ])
+
+      expect(result).toBe(['> quoted', '', '> 💡 note', '', '```typescript', 'const a = 1', '```', '', '---'].join('\n'))
+    })
+
+    it('renders tables with a header row', () => {
+      const result = renderBlocks([
+        block('table', { table_width: 2, has_column_header: true }, [
+          block('table_row', { cells: [[text('Name')], [text('Value')]] }),
+          block('table_row', { cells: [[text('a|b')], [text('1')]] }),
+        ]),
+      ])
+
+      expect(result).toBe(['| Name | Value |', '| --- | --- |', '| a\\|b | 1 |'].join('\n'))
+    })
+
+    it('renders child pages and databases as links', () => {
+      const result = renderBlocks([
+        { ...block('child_page', { title: 'Sub page' }), page_info: { url: 'https://notion.so/sub' } },
+        {
+          ...block('child_database', { title: 'Tasks' }),
+          database: { object: 'database', title: [text('Tasks DB')], url: 'https://notion.so/db' },
+        },
+      ])
+
+      expect(result).toBe(['📄 [Sub page](https://notion.so/sub)', '', '🗃️ [Tasks DB](https://notion.so/db)'].join('\n'))
+    })
+
+    it('skips placeholder entries without a block type', () => {
+      expect(renderBlocks([{ note: 'Maximum recursion depth reached' }])).toBe('')
+    })
+  })
+
+  describe('renderFlattenedBlocks', () => {
+    it('nests blocks of the slice and indents those whose parent is in another slice', () => {
+      const slice = [
+        { ...block('bulleted_list_item', { rich_text: [text('Orphan child')] }), depth: 2 },
+        { ...block('bulleted_list_item', { rich_text: [text('Parent')] }), depth: 1 },
+        { ...block('bulleted_list_item', { rich_text: [text('Child')] }), depth: 2 },
+        { ...block('bulleted_list_item', { rich_text: [text('Sibling')] }), depth: 1 },
+      ]
+
+      expect(renderFlattenedBlocks(slice)).toBe('  - Orphan child\n\n- Parent\n  - Child\n- Sibling')
+    })
+  })
+
+  describe('renderPageToMarkdown', () => {
+    it('renders the title, properties, content and comments', () => {
+      const page = {
+        object: 'page',
+        id: 'page-id',
+        properties: {
+          Name: { id: 'title', type: 'title', title: [text('My Page')] },
+          Status: { id: 'st', type: 'select', select: { name: 'Done' } },
+        },
+        content: [block('paragraph', { rich_text: [text('Hello')] })],
+        comments: { results: [{ object: 'comment', id: 'c1', rich_text: [text('Looks good')] }] },
+      }
+
+      expect(renderPageToMarkdown(page)).toBe(
+        ['# My Page', '', '- **Status**: Done', '', 'Hello', '', '## Comments', '', '> Looks good', ''].join('\n'),
+      )
+    })
+
+    it('notes the parts left out to fit an output budget', () => {
+      const page = {
+        object: 'page',
+        id: 'page-id',
+        properties: { Name: { id: 'title', type: 'title', title: [text('My Page')] } },
+        content: [{ ...block('toggle', { rich_text: [text('Details')] }), has_children: true, children_omitted: true }],
+      }
+
+      expect(renderPageToMarkdown(page, ['comments', 'children below depth 1'])).toBe(
+        [
+          '# My Page',
+          '',
+          '_Left out to fit the output budget: comments, children below depth 1_',
+          '',
+          '- Details',
+          '  _(child blocks omitted)_',
+          '',
+        ].join('\n'),
+      )
+    })
+  })
+
+  describe('renderDatabaseSchemaToMarkdown', () => {
+    it('renders the title, description and one row per property', () => {
+      const database = {
+        object: 'database',
+        id: 'db-id',
+        title: [text('Tasks')],
+        description: [text('Team backlog')],
+        properties: {
+          Name: { id: 'title', type: 'title', title: {} },
+          Status: { id: 'st', type: 'status', status: { options: [{ name: 'To do' }, { name: 'Done' }] } },
+          Estimate: { id: 'es', type: 'number', number: { format: 'number' } },
+          Project: { id: 'pr', type: 'relation', relation: { database_id: 'projects-id' } },
+        },
+      }
+
+      expect(renderDatabaseSchemaToMarkdown(database)).toBe(
+        [
+          '# Tasks',
+          '',
+          'Team backlog',
+          '',
+          '| Property | Type | Details |',
+          '| --- | --- | --- |',
+          '| Name | title |  |',
+          '| Status | status | To do, Done |',
+          '| Estimate | number |  |',
+          '| Project | relation | Related database: projects-id |',
+          '',
+        ].join('\n'),
+      )
+    })
+  })
+
+  describe('getNotionObjectTitle', () => {
+    it('reads titles from pages and databases', () => {
+      expect(getNotionObjectTitle({ properties: { Name: { type: 'title', title: [text('Page')] } } })).toBe('Page')
+      expect(getNotionObjectTitle({ title: [text('Database')] })).toBe('Database')
+      expect(getNotionObjectTitle(undefined)).toBe('')
+    })
+  })
+})
@@ -0,0 +1,51 @@
+import fs from 'node:fs'
+import os from 'node:os'
+import path from 'node:path'
+import { describe, expect, it } from 'vitest'
+import { LRUCache } from '../cache'
+import { FileCacheStore } from '../file-cache-store'
+import { DEFAULT_CACHE_CONFIG, NotionCache } from '../notion-cache'
+
+describe('NotionCache', () => {
+  it('applies per-type defaults and overrides', () => {
+    const cache = new NotionCache({ comments: { maxEntries: 1, ttlMs: undefined } })
+    cache.comments.set('a', {})
+    cache.comments.set('b', {})
+
+    expect(cache.comments.size).toBe(1)
+    expect(cache.pages).toBeInstanceOf(LRUCache)
+    expect(cache.freshnessCheck).toBe(true)
+    expect(Object.keys(cache.stats())).toEqual(Object.keys(DEFAULT_CACHE_CONFIG))
+  })
+
+  it('invalidates an object with its properties and comments, and its subtree on request', () => {
+    const cache = new NotionCache()
+    cache.pages.set('page-1', { id: 'page-1' })
+    cache.properties.set('page-1:title', {})
+    cache.comments.set('comment-1', { id: 'comment-1', parent: { type: 'page_id', page_id: 'page-1' } })
+    cache.blockChildren.set('page-1', [{ id: 'child-page' }])
+    cache.pages.set('child-page', { id: 'child-page' })
+
+    expect(cache.invalidate('page-1')).toBe(4)
+    expect(cache.pages.keys()).toEqual(['child-page'])
+
+    cache.blockChildren.set('page-1', [{ id: 'child-page' }])
+    expect(cache.invalidate('page-1', true)).toBe(2)
+    expect(cache.pages.size).toBe(0)
+  })
+
+  it('stores each cache type in its own directory when a path is configured', async () => {
+    const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'notion-cache-'))
+    try {
+      const cache = new NotionCache({ path: directory })
+      cache.blockChildren.set('block-1', [], '2024-01-01T00:00:00.000Z')
+      await cache.flush()
+
+      expect(cache.blockChildren).toBeInstanceOf(FileCacheStore)
+      expect(fs.readdirSync(path.join(directory, 'blockChildren'))).toEqual(['block-1.json'])
+      expect(new NotionCache({ path: directory }).blockChildren.get('block-1', '2024-01-01T00:00:00.000Z')).toEqual([])
+    } finally {
+      fs.rmSync(directory, { recursive: true, force: true })
+    }
+  })
+})
@@ -1,3 +1,4 @@
+import { GetPromptRequestSchema } from '@modelcontextprotocol/sdk/types.js'
 import { OpenAPIV3 } from 'openapi-types'
 import { beforeEach, describe, expect, it, vi } from 'vitest'
 import { HttpClient } from '../../client/http-client'
@@ -291,7 +292,8 @@ describe('MCPProxy - One Pager Functionality', () => {
             page_id: 'test-page-id',
             maxDepth: 2,
             includeDatabases: true,
-            includeComments: true
+            includeComments: true,
+            runInBackground: false
           },
         },
       })
@@ -317,5 +319,728 @@ describe('MCPProxy - One Pager Functionality', () => {
       expect(databaseBlock).toHaveProperty('database')
       expect(databaseBlock.database).toHaveProperty('id', 'db-1')
     })
+
+    it('should honor maxParallelRequests', async () => {
+      let inFlight = 0
+      let maxInFlight = 0
+      const executeOperationMock = HttpClient.prototype.executeOperation as ReturnType<typeof vi.fn>
+      executeOperationMock.mockImplementation(async (operation, params) => {
+        inFlight++
+        maxInFlight = Math.max(maxInFlight, inFlight)
+        await new Promise(resolve => setTimeout(resolve, 5))
+        inFlight--
+
+        if (operation.operationId === 'retrieve-a-page') {
+          return { data: { object: 'page', id: 'test-page-id', properties: {} }, status: 200, headers: new Headers() }
+        }
+        if (operation.operationId === 'get-block-children' && params.block_id === 'test-page-id') {
+          return {
+            data: {
+              object: 'list',
+              results: ['a', 'b', 'c'].map(id => ({ object: 'block', id, type: 'toggle', has_children: true, toggle: { rich_text: [] } })),
+              next_cursor: null,
+              has_more: false,
+            },
+            status: 200,
+            headers: new Headers(),
+          }
+        }
+        return { data: { object: 'list', results: [], next_cursor: null, has_more: false }, status: 200, headers: new Headers() }
+      })
+
+      ;(proxy as any).openApiLookup = {
+        'API-retrieve-a-page': {
+          operationId: 'retrieve-a-page',
+          method: 'get',
+          path: '/v1/pages/{page_id}',
+        },
+        'API-get-block-children': {
+          operationId: 'get-block-children',
+          method: 'get',
+          path: '/v1/blocks/{block_id}/children',
+        },
+      }
+
+      const server = (proxy as any).server
+      const handlers = server.setRequestHandler.mock.calls.flatMap((x: unknown[]) => x).filter((x: unknown) => typeof x === 'function')
+      const callToolHandler = handlers[1]
+
+      const result = await callToolHandler({
+        params: {
+          name: 'API-get-one-pager',
+          arguments: {
+            page_id: 'test-page-id',
+            includeComments: false,
+            maxParallelRequests: 1,
+            runInBackground: false,
+          },
+        },
+      })
+
+      const onePagerData = JSON.parse(result.content[0].text)
+      expect(onePagerData.content).toHaveLength(3)
+      expect(maxInFlight).toBe(1)
+    })
+
+    it('should render the page as markdown when format is markdown', async () => {
+      const executeOperationMock = HttpClient.prototype.executeOperation as ReturnType<typeof vi.fn>
+      executeOperationMock.mockImplementation((operation) => {
+        if (operation.operationId === 'retrieve-a-page') {
+          return Promise.resolve({
+            data: {
+              object: 'page',
+              id: 'test-page-id',
+              properties: {
+                title: { id: 'title', type: 'title', title: [{ type: 'text', plain_text: 'Test Page' }] },
+              },
+            },
+            status: 200,
+            headers: new Headers({ 'content-type': 'application/json' }),
+          })
+        } else if (operation.operationId === 'get-block-children') {
+          return Promise.resolve({
+            data: {
+              object: 'list',
+              results: [
+                {
+                  object: 'block',
+                  id: 'block-1',
+                  type: 'heading_1',
+                  has_children: false,
+                  heading_1: { rich_text: [{ type: 'text', plain_text: 'Overview' }] },
+                },
+                {
+                  object: 'block',
+                  id: 'block-2',
+                  type: 'paragraph',
+                  has_children: false,
+                  paragraph: {
+                    rich_text: [{ type: 'text', plain_text: 'Important', annotations: { bold: true } }],
+                  },
+                },
+              ],
+              next_cursor: null,
+              has_more: false,
+            },
+            status: 200,
+            headers: new Headers({ 'content-type': 'application/json' }),
+          })
+        }
+        return Promise.resolve({ data: { results: [] }, status: 200, headers: new Headers() })
+      })
+
+      ;(proxy as any).openApiLookup = {
+        'API-retrieve-a-page': {
+          operationId: 'retrieve-a-page',
+          method: 'get',
+          path: '/v1/pages/{page_id}',
+        },
+        'API-get-block-children': {
+          operationId: 'get-block-children',
+          method: 'get',
+          path: '/v1/blocks/{block_id}/children',
+        },
+      }
+
+      const server = (proxy as any).server
+      const handlers = server.setRequestHandler.mock.calls.flatMap((x: unknown[]) => x).filter((x: unknown) => typeof x === 'function')
+      const callToolHandler = handlers[1]
+
+      const result = await callToolHandler({
+        params: {
+          name: 'API-get-one-pager',
+          arguments: {
+            page_id: 'test-page-id',
+            includeComments: false,
+            includeProperties: false,
+            runInBackground: false,
+            format: 'markdown',
+          },
+        },
+      })
+
+      expect(result.content[0].text).toBe('# Test Page\n\n## Overview\n\n**Important**\n')
+    })
+
+    it('embeds the page rendered as markdown in prompts', async () => {
+      const executeOperationMock = HttpClient.prototype.executeOperation as ReturnType<typeof vi.fn>
+      executeOperationMock.mockImplementation(async (operation) => {
+        if (operation.operationId === 'retrieve-a-page') {
+          return {
+            data: {
+              object: 'page',
+              id: 'test-page-id',
+              properties: { title: { id: 'title', type: 'title', title: [{ type: 'text', plain_text: 'Retro' }] } },
+            },
+            status: 200,
+            headers: new Headers(),
+          }
+        }
+        return {
+          data: {
+            object: 'list',
+            results: [
+              {
+                object: 'block',
+                id: 'block-1',
+                type: 'to_do',
+                has_children: false,
+                to_do: { checked: false, rich_text: [{ type: 'text', plain_text: 'Send notes' }] },
+              },
+            ],
+            has_more: false,
+            next_cursor: null,
+          },
+          status: 200,
+          headers: new Headers(),
+        }
+      })
+
+      ;(proxy as any).openApiLookup = {
+        'API-retrieve-a-page': { operationId: 'retrieve-a-page', method: 'get', path: '/v1/pages/{page_id}' },
+        'API-get-block-children': { operationId: 'get-block-children', method: 'get', path: '/v1/blocks/{block_id}/children' },
+      }
+
+      const server = (proxy as any).server
+      const getPromptHandler = server.setRequestHandler.mock.calls.find(([schema]: unknown[]) => schema === GetPromptRequestSchema)[1]
+      const result = await getPromptHandler({ params: { name: 'extract-action-items', arguments: { page_id: 'test-page-id' } } }, {})
+
+      expect(result.messages[0].content.resource).toEqual({
+        uri: 'notion://page/test-page-id/markdown',
+        mimeType: 'text/markdown',
+        text: '# Retro\n\n- [ ] Send notes\n',
+      })
+      expect(result.messages[1].content.text).toContain('action item')
+    })
+
+    it('sends progress notifications and runs in the foreground when a progress token is given', async () => {
+      const executeOperationMock = HttpClient.prototype.executeOperation as ReturnType<typeof vi.fn>
+      executeOperationMock.mockImplementation(async (operation, params) => {
+        if (operation.operationId === 'retrieve-a-page') {
+          return { data: { object: 'page', id: 'test-page-id', properties: {} }, status: 200, headers: new Headers() }
+        }
+        const results =
+          params.block_id === 'test-page-id'
+            ? [
+                { object: 'block', id: 'block-1', type: 'toggle', has_children: true, toggle: { rich_text: [] } },
+                { object: 'block', id: 'block-2', type: 'divider', has_children: false, divider: {} },
+              ]
+            : [{ object: 'block', id: 'block-3', type: 'divider', has_children: false, divider: {} }]
+        return { data: { object: 'list', results, has_more: false, next_cursor: null }, status: 200, headers: new Headers() }
+      })
+
+      ;(proxy as any).openApiLookup = {
+        'API-retrieve-a-page': {
+          operationId: 'retrieve-a-page',
+          method: 'get',
+          path: '/v1/pages/{page_id}',
+        },
+        'API-get-block-children': {
+          operationId: 'get-block-children',
+          method: 'get',
+          path: '/v1/blocks/{block_id}/children',
+        },
+      }
+
+      const server = (proxy as any).server
+      const handlers = server.setRequestHandler.mock.calls.flatMap((x: unknown[]) => x).filter((x: unknown) => typeof x === 'function')
+      const callToolHandler = handlers[1]
+      const sendNotification = vi.fn().mockResolvedValue(undefined)
+
+      const result = await callToolHandler(
+        {
+          params: {
+            name: 'API-get-one-pager',
+            arguments: { page_id: 'test-page-id', includeComments: false, includeProperties: false },
+            _meta: { progressToken: 'progress-1' },
+          },
+        },
+        { sendNotification },
+      )
+
+      expect(JSON.parse(result.content[0].text).content).toHaveLength(2)
+      expect(sendNotification).toHaveBeenCalled()
+      for (const [notification] of sendNotification.mock.calls) {
+        expect(notification.method).toBe('notifications/progress')
+        expect(notification.params.progressToken).toBe('progress-1')
+      }
+      expect(sendNotification.mock.lastCall![0].params).toMatchObject({ progress: 3, total: 3 })
+    })
+
+    it('reuses cached blocks until the page is edited', async () => {
+      let lastEditedTime = '2024-01-01T00:00:00.000Z'
+      const executeOperationMock = HttpClient.prototype.executeOperation as ReturnType<typeof vi.fn>
+      executeOperationMock.mockImplementation(async (operation) => {
+        if (operation.operationId === 'retrieve-a-page') {
+          return {
+            data: { object: 'page', id: 'test-page-id', last_edited_time: lastEditedTime, properties: {} },
+            status: 200,
+            headers: new Headers(),
+          }
+        }
+        return {
+          data: {
+            object: 'list',
+            results: [{ object: 'block', id: 'block-1', type: 'divider', has_children: false, divider: {} }],
+            has_more: false,
+            next_cursor: null,
+          },
+          status: 200,
+          headers: new Headers(),
+        }
+      })
+
+      ;(proxy as any).openApiLookup = {
+        'API-retrieve-a-page': {
+          operationId: 'retrieve-a-page',
+          method: 'get',
+          path: '/v1/pages/{page_id}',
+        },
+        'API-get-block-children': {
+          operationId: 'get-block-children',
+          method: 'get',
+          path: '/v1/blocks/{block_id}/children',
+        },
+      }
+
+      const server = (proxy as any).server
+      const handlers = server.setRequestHandler.mock.calls.flatMap((x: unknown[]) => x).filter((x: unknown) => typeof x === 'function')
+      const callToolHandler = handlers[1]
+      const getOnePager = () =>
+        callToolHandler({
+          params: {
+            name: 'API-get-one-pager',
+            arguments: { page_id: 'test-page-id', includeComments: false, includeProperties: false, runInBackground: false },
+          },
+        })
+      const blockListings = () =>
+        executeOperationMock.mock.calls.filter(([operation]) => operation.operationId === 'get-block-children').length
+
+      await getOnePager()
+      const cached = JSON.parse((await getOnePager()).content[0].text)
+      expect(cached.content).toHaveLength(1)
+      expect(blockListings()).toBe(1)
+
+      lastEditedTime = '2024-01-02T00:00:00.000Z'
+      await getOnePager()
+      expect(blockListings()).toBe(2)
+    })
+
+    it('follows comment pagination, groups threads and fetches block comments on request', async () => {
+      const comment = (id: string, discussionId: string, text: string) => ({
+        object: 'comment',
+        id,
+        discussion_id: discussionId,
+        rich_text: [{ type: 'text', plain_text: text, text: { content: text } }],
+      })
+      // The page's comments come in two pages, with both threads interleaved
+      const comments: Record<string, any[][]> = {
+        'test-page-id': [
+          [comment('c1', 'd1', 'First'), comment('c2', 'd2', 'Other')],
+          [comment('c3', 'd1', 'Reply')],
+        ],
+        'toggle-1': [[comment('c4', 'd3', 'On the toggle')]],
+      }
+      const children: Record<string, any[]> = {
+        'test-page-id': [{ object: 'block', id: 'toggle-1', type: 'toggle', has_children: true, toggle: { rich_text: [] } }],
+        'toggle-1': [{ object: 'block', id: 'nested-1', type: 'divider', has_children: false, divider: {} }],
+      }
+      const executeOperationMock = HttpClient.prototype.executeOperation as ReturnType<typeof vi.fn>
+      executeOperationMock.mockImplementation(async (operation, params) => {
+        const list = (results: any[], nextCursor: string | null = null) => ({
+          data: { object: 'list', results, has_more: nextCursor !== null, next_cursor: nextCursor },
+          status: 200,
+          headers: new Headers(),
+        })
+        if (operation.operationId === 'retrieve-a-page') {
+          return { data: { object: 'page', id: 'test-page-id', properties: {} }, status: 200, headers: new Headers() }
+        }
+        if (operation.operationId === 'retrieve-a-comment') {
+          const pages = comments[params.block_id] ?? [[]]
+          const index = Number(params.start_cursor ?? 0)
+          return list(pages[index], index + 1 < pages.length ? String(index + 1) : null)
+        }
+        return list(children[params.block_id] ?? [])
+      })
+
+      ;(proxy as any).openApiLookup = {
+        'API-retrieve-a-page': { operationId: 'retrieve-a-page', method: 'get', path: '/v1/pages/{page_id}' },
+        'API-get-block-children': { operationId: 'get-block-children', method: 'get', path: '/v1/blocks/{block_id}/children' },
+        'API-retrieve-a-comment': { operationId: 'retrieve-a-comment', method: 'get', path: '/v1/comments' },
+      }
+
+      const server = (proxy as any).server
+      const handlers = server.setRequestHandler.mock.calls.flatMap((x: unknown[]) => x).filter((x: unknown) => typeof x === 'function')
+      const getOnePager = async (args: Record<string, unknown>) =>
+        (
+          await handlers[1]({
+            params: {
+              name: 'API-get-one-pager',
+              arguments: { page_id: 'test-page-id', includeProperties: false, runInBackground: false, skipCache: true, ...args },
+            },
+          })
+        ).content[0].text
+
+      const onePagerData = JSON.parse(await getOnePager({ includeBlockComments: true }))
+      expect(onePagerData.comments.results.map((item: any) => item.id)).toEqual(['c1', 'c2', 'c3'])
+      expect(onePagerData.comments.threads).toEqual([
+        { discussion_id: 'd1', comment_ids: ['c1', 'c3'] },
+        { discussion_id: 'd2', comment_ids: ['c2'] },
+      ])
+      expect(onePagerData.content[0].comments.results.map((item: any) => item.id)).toEqual(['c4'])
+      expect(onePagerData.content[0].children[0]).not.toHaveProperty('comments')
+
+      const markdown = await getOnePager({ includeBlockComments: true, format: 'markdown' })
+      expect(markdown).toContain('## Comments\n\n> First\n>\n> Reply\n\n> Other\n\n> On the toggle\n')
+
+      const withoutBlockComments = JSON.parse(await getOnePager({}))
+      expect(withoutBlockComments.content[0]).not.toHaveProperty('comments')
+    })
+
+    it('marks comments as truncated when a page of them cannot be retrieved', async () => {
+      const executeOperationMock = HttpClient.prototype.executeOperation as ReturnType<typeof vi.fn>
+      executeOperationMock.mockImplementation(async (operation, params) => {
+        if (operation.operationId === 'retrieve-a-page') {
+          return { data: { object: 'page', id: 'test-page-id', properties: {} }, status: 200, headers: new Headers() }
+        }
+        if (operation.operationId === 'retrieve-a-comment') {
+          if (params.block_id === 'test-page-id') {
+            throw new Error('socket hang up')
+          }
+          return { data: { object: 'error', code: 'conflict_error' }, status: 202, headers: new Headers() }
+        }
+        const results = params.block_id === 'test-page-id' ? [{ object: 'block', id: 'toggle-1', type: 'toggle', has_children: true, toggle: { rich_text: [] } }] : []
+        return { data: { object: 'list', results, has_more: false, next_cursor: null }, status: 200, headers: new Headers() }
+      })
+      ;(proxy as any).openApiLookup = {
+        'API-retrieve-a-page': { operationId: 'retrieve-a-page', method: 'get', path: '/v1/pages/{page_id}' },
+        'API-get-block-children': { operationId: 'get-block-children', method: 'get', path: '/v1/blocks/{block_id}/children' },
+        'API-retrieve-a-comment': { operationId: 'retrieve-a-comment', method: 'get', path: '/v1/comments' },
+      }
+      const logError = vi.spyOn((proxy as any).logger, 'error')
+
+      const server = (proxy as any).server
+      const handlers = server.setRequestHandler.mock.calls.flatMap((x: unknown[]) => x).filter((x: unknown) => typeof x === 'function')
+      const result = await handlers[1]({
+        params: {
+          name: 'API-get-one-pager',
+          arguments: { page_id: 'test-page-id', includeProperties: false, includeBlockComments: true, runInBackground: false, skipCache: true },
+        },
+      })
+      const onePagerData = JSON.parse(result.content[0].text)
+
+      expect(onePagerData.comments).toMatchObject({ results: [], truncated: true, error: 'Failed to retrieve comments' })
+      expect(onePagerData.content[0].comments).toMatchObject({
+        results: [],
+        truncated: true,
+        error: 'Failed to retrieve comments (status 202)',
+      })
+      expect(logError).toHaveBeenCalledWith('Error retrieving comments:', expect.any(Error))
+    })
+
+    it('reduces outputs to the budget and returns the rest in chunks', async () => {
+      const paragraph = (index: number) => ({
+        object: 'block',
+        id: `block-${index}`,
+        type: 'paragraph',
+        has_children: false,
+        paragraph: {
+          rich_text: [
+            {
+              type: 'text',
+              plain_text: `Paragraph ${index} `.repeat(10),
+              annotations: { bold: false, italic: false, strikethrough: false, underline: false, code: false, color: 'default' },
+            },
+          ],
+        },
+      })
+      const executeOperationMock = HttpClient.prototype.executeOperation as ReturnType<typeof vi.fn>
+      executeOperationMock.mockImplementation(async (operation) => {
+        if (operation.operationId === 'retrieve-a-page') {
+          return { data: { object: 'page', id: 'test-page-id', properties: {} }, status: 200, headers: new Headers() }
+        }
+        return {
+          data: { object: 'list', results: Array.from({ length: 20 }, (_, index) => paragraph(index)), has_more: false, next_cursor: null },
+          status: 200,
+          headers: new Headers(),
+        }
+      })
+
+      ;(proxy as any).openApiLookup = {
+        'API-retrieve-a-page': {
+          operationId: 'retrieve-a-page',
+          method: 'get',
+          path: '/v1/pages/{page_id}',
+        },
+        'API-get-block-children': {
+          operationId: 'get-block-children',
+          method: 'get',
+          path: '/v1/blocks/{block_id}/children',
+        },
+      }
+
+      const server = (proxy as any).server
+      const handlers = server.setRequestHandler.mock.calls.flatMap((x: unknown[]) => x).filter((x: unknown) => typeof x === 'function')
+      const getOnePager = (args: Record<string, unknown>) =>
+        handlers[1]({
+          params: {
+            name: 'API-get-one-pager',
+            arguments: { page_id: 'test-page-id', includeComments: false, includeProperties: false, runInBackground: false, ...args },
+          },
+        })
+
+      const unbudgeted = (await getOnePager({})).content[0].text
+      const maxChars = unbudgeted.length - 500
+      const fitting = JSON.parse((await getOnePager({ maxChars })).content[0].text)
+      expect(fitting.content).toHaveLength(20)
+      expect(fitting.content[0].paragraph.rich_text[0]).not.toHaveProperty('annotations')
+      expect(fitting._meta.budget).toEqual({ maxChars, reductions: ['annotations'] })
+
+      const first = await getOnePager({ maxOutputTokens: 250 })
+      expect(first.content[0].text).toHaveLength(1000)
+      const continuation = JSON.parse(first.content[1].text)
+      expect(continuation).toMatchObject({ truncated: true, format: 'json', offset: 0, continuationCursor: expect.any(String) })
+      expect(first.structuredContent.chunk).toBe(first.content[0].text)
+
+      let text = first.content[0].text
+      let cursor = continuation.continuationCursor
+      const requestsMade = executeOperationMock.mock.calls.length
+      while (cursor) {
+        const next = await getOnePager({ cursor })
+        expect(next.structuredContent.offset).toBe(text.length)
+        text += next.structuredContent.chunk
+        cursor = next.structuredContent.continuationCursor
+      }
+      expect(text).toHaveLength(continuation.totalChars)
+      expect(JSON.parse(text).content).toHaveLength(20)
+      // Chunks are served from the stored output
+      expect(executeOperationMock).toHaveBeenCalledTimes(requestsMade)
+
+      const expired = await getOnePager({ cursor: 'expired' })
+      expect(expired.isError).toBe(true)
+      expect(JSON.parse(expired.content[0].text).code).toBe(400)
+    })
+
+    it('returns the page in slices of its flattened block tree when chunked', async () => {
+      const paragraph = (id: string, content: string, hasChildren = false) => ({
+        object: 'block',
+        id,
+        type: 'bulleted_list_item',
+        has_children: hasChildren,
+        bulleted_list_item: { rich_text: [{ type: 'text', plain_text: content, text: { content } }] },
+      })
+      const children: Record<string, any[]> = {
+        'test-page-id': [paragraph('item-1', 'First', true), paragraph('item-2', 'Second')],
+        'item-1': [paragraph('item-1-1', 'Nested')],
+      }
+      const executeOperationMock = HttpClient.prototype.executeOperation as ReturnType<typeof vi.fn>
+      executeOperationMock.mockImplementation(async (operation, params) => {
+        if (operation.operationId === 'retrieve-a-page') {
+          return {
+            data: { object: 'page', id: 'test-page-id', properties: { title: { type: 'title', title: [{ plain_text: 'Long page' }] } } },
+            status: 200,
+            headers: new Headers(),
+          }
+        }
+        return {
+          data: { object: 'list', results: children[params.block_id] ?? [], has_more: false, next_cursor: null },
+          status: 200,
+          headers: new Headers(),
+        }
+      })
+
+      ;(proxy as any).openApiLookup = {
+        'API-retrieve-a-page': {
+          operationId: 'retrieve-a-page',
+          method: 'get',
+          path: '/v1/pages/{page_id}',
+        },
+        'API-get-block-children': {
+          operationId: 'get-block-children',
+          method: 'get',
+          path: '/v1/blocks/{block_id}/children',
+        },
+      }
+
+      const server = (proxy as any).server
+      const handlers = server.setRequestHandler.mock.calls.flatMap((x: unknown[]) => x).filter((x: unknown) => typeof x === 'function')
+      const getOnePager = (args: Record<string, unknown>) =>
+        handlers[1]({ params: { name: 'API-get-one-pager', arguments: { page_id: 'test-page-id', ...args } } })
+
+      const first = JSON.parse((await getOnePager({ chunked: true, chunkSize: 2 })).content[0].text)
+      expect(first).toMatchObject({ object: 'page', id: 'test-page-id', has_more: true })
+      expect(first.content.map((block: any) => [block.id, block.depth])).toEqual([
+        ['item-1', 1],
+        ['item-1-1', 2],
+      ])
+
+      const second = JSON.parse((await getOnePager({ cursor: first.continuationCursor, chunkSize: 2 })).content[0].text)
+      expect(second).toEqual({ id: 'test-page-id', content: [{ ...children['test-page-id'][1], depth: 1 }], has_more: false })
+
+      const markdown = await getOnePager({ chunked: true, chunkSize: 2, format: 'markdown' })
+      expect(markdown.content[0].text).toBe('# Long page\n\n- First\n  - Nested\n')
+      expect(JSON.parse(markdown.content[1].text)).toEqual({
+        format: 'markdown',
+        has_more: true,
+        continuationCursor: first.continuationCursor,
+      })
+    })
+
+    it('warms the cache for a list of pages in a background job', async () => {
+      const executeOperationMock = HttpClient.prototype.executeOperation as ReturnType<typeof vi.fn>
+      executeOperationMock.mockImplementation(async (operation, params) => {
+        if (operation.operationId === 'retrieve-a-page') {
+          return { data: { object: 'page', id: params.page_id, properties: {} }, status: 200, headers: new Headers() }
+        }
+        return { data: { object: 'list', results: [], has_more: false, next_cursor: null }, status: 200, headers: new Headers() }
+      })
+
+      ;(proxy as any).openApiLookup = {
+        'API-retrieve-a-page': {
+          operationId: 'retrieve-a-page',
+          method: 'get',
+          path: '/v1/pages/{page_id}',
+        },
+        'API-get-block-children': {
+          operationId: 'get-block-children',
+          method: 'get',
+          path: '/v1/blocks/{block_id}/children',
+        },
+      }
+
+      const server = (proxy as any).server
+      const handlers = server.setRequestHandler.mock.calls.flatMap((x: unknown[]) => x).filter((x: unknown) => typeof x === 'function')
+      const callToolHandler = handlers[1]
+      const callJson = async (name: string, args: Record<string, unknown>) =>
+        JSON.parse((await callToolHandler({ params: { name, arguments: args } })).content[0].text)
+
+      const started = await callJson('API-warm-cache', { page_ids: ['page-1', 'page-2'] })
+      expect(started).toMatchObject({ status: 'queued', page_ids: ['page-1', 'page-2'] })
+
+      await vi.waitFor(async () => {
+        const result = await callJson('API-get-background-result', { job_id: started.job_id })
+        expect(result.pages).toEqual([
+          { page_id: 'page-1', status: 'cached' },
+          { page_id: 'page-2', status: 'cached' },
+        ])
+      })
+      expect((proxy as any).cache.pages.keys()).toEqual(['page-1', 'page-2'])
+      expect((proxy as any).cache.blockChildren.keys()).toEqual(['page-1', 'page-2'])
+    })
+
+    it('stops the traversal and discards partial results when the call is cancelled', async () => {
+      const controller = new AbortController()
+      const executeOperationMock = HttpClient.prototype.executeOperation as ReturnType<typeof vi.fn>
+      executeOperationMock.mockImplementation(async (operation, _params, requestOptions) => {
+        if (operation.operationId === 'retrieve-a-page') {
+          return { data: { object: 'page', id: 'test-page-id', properties: {} }, status: 200, headers: new Headers() }
+        }
+        // The client cancels while the first block listing is in flight
+        controller.abort('client cancelled')
+        expect(requestOptions.signal.aborted).toBe(true)
+        throw new Error('canceled')
+      })
+
+      ;(proxy as any).openApiLookup = {
+        'API-retrieve-a-page': {
+          operationId: 'retrieve-a-page',
+          method: 'get',
+          path: '/v1/pages/{page_id}',
+        },
+        'API-get-block-children': {
+          operationId: 'get-block-children',
+          method: 'get',
+          path: '/v1/blocks/{block_id}/children',
+        },
+      }
+
+      const server = (proxy as any).server
+      const handlers = server.setRequestHandler.mock.calls.flatMap((x: unknown[]) => x).filter((x: unknown) => typeof x === 'function')
+      const callToolHandler = handlers[1]
+
+      await expect(
+        callToolHandler(
+          {
+            params: {
+              name: 'API-get-one-pager',
+              arguments: { page_id: 'test-page-id', includeComments: false, includeProperties: false, runInBackground: false },
+            },
+          },
+          { signal: controller.signal, sendNotification: vi.fn() },
+        ),
+      ).rejects.toThrow('Request aborted: client cancelled')
+      expect(executeOperationMock).toHaveBeenCalledTimes(2)
+    })
+
+    it('runs background requests as jobs that can be polled and cancelled', async () => {
+      const executeOperationMock = HttpClient.prototype.executeOperation as ReturnType<typeof vi.fn>
+      let releaseBlocks!: () => void
+      const blocksReleased = new Promise<void>((resolve) => (releaseBlocks = resolve))
+      executeOperationMock.mockImplementation(async (operation) => {
+        if (operation.operationId === 'retrieve-a-page') {
+          return {
+            data: { object: 'page', id: 'test-page-id', properties: {} },
+            status: 200,
+            headers: new Headers(),
+          }
+        }
+        await blocksReleased
+        return {
+          data: {
+            object: 'list',
+            results: [{ object: 'block', id: 'block-1', type: 'paragraph', has_children: false, paragraph: { rich_text: [] } }],
+            has_more: false,
+            next_cursor: null,
+          },
+          status: 200,
+          headers: new Headers(),
+        }
+      })
+
+      ;(proxy as any).openApiLookup = {
+        'API-retrieve-a-page': {
+          operationId: 'retrieve-a-page',
+          method: 'get',
+          path: '/v1/pages/{page_id}',
+        },
+        'API-get-block-children': {
+          operationId: 'get-block-children',
+          method: 'get',
+          path: '/v1/blocks/{block_id}/children',
+        },
+      }
+
+      const server = (proxy as any).server
+      const handlers = server.setRequestHandler.mock.calls.flatMap((x: unknown[]) => x).filter((x: unknown) => typeof x === 'function')
+      const callToolHandler = handlers[1]
+      const callJson = async (name: string, args: Record<string, unknown>) =>
+        JSON.parse((await callToolHandler({ params: { name, arguments: args } })).content[0].text)
+
+      const arguments_ = { page_id: 'test-page-id', includeComments: false, includeProperties: false }
+      const first = await callJson('API-get-one-pager', arguments_)
+      const second = await callJson('API-get-one-pager', arguments_)
+      expect(first.status).toBe('queued')
+      expect(first.job_id).not.toBe(second.job_id)
+
+      await vi.waitFor(async () => {
+        const status = await callJson('API-get-background-result', { job_id: first.job_id })
+        expect(status.status).toBe('running')
+        expect(status.progress.requestsMade).toBeGreaterThan(0)
+      })
+
+      const cancelled = await callJson('API-cancel-background-job', { job_id: second.job_id })
+      expect(cancelled.status).toBe('cancelled')
+
+      releaseBlocks()
+      await vi.waitFor(async () => {
+        const result = await callJson('API-get-background-result', { job_id: first.job_id })
+        expect(result._meta?.job_id).toBe(first.job_id)
+        expect(result.content).toHaveLength(1)
+      })
+
+      expect((await callJson('API-get-background-result', { job_id: first.job_id }))._meta.processedInBackground).toBe(true)
+      expect((await callJson('API-get-background-result', { job_id: second.job_id })).status).toBe('cancelled')
+      expect((await callJson('API-get-background-result', { job_id: 'missing' })).status).toBe('not_found')
+    })
   })
 }) 
\ No newline at end of file
@@ -0,0 +1,109 @@
+import { describe, expect, it } from 'vitest'
+import { ContinuationStore, fitToBudget, outputBudget, reduceOutput, sliceChunk } from '../output-budget'
+
+const richText = (text: string) => ({
+  type: 'text',
+  plain_text: text,
+  text: { content: text },
+  annotations: { bold: false, italic: false, color: 'default' },
+})
+
+const page = {
+  object: 'page',
+  id: 'page-1',
+  properties: { annotations: { type: 'rich_text', rich_text: [richText('kept property')] } },
+  comments: { results: [{ object: 'comment', id: 'comment-1' }] },
+  content: [
+    {
+      object: 'block',
+      id: 'block-1',
+      type: 'toggle',
+      has_children: true,
+      toggle: { rich_text: [richText('Toggle')] },
+      children: [
+        {
+          object: 'block',
+          id: 'block-2',
+          type: 'toggle',
+          has_children: true,
+          toggle: { rich_text: [richText('Nested')] },
+          children: [{ object: 'block', id: 'block-3', type: 'paragraph', paragraph: { rich_text: [richText('Deep')] } }],
+        },
+      ],
+    },
+  ],
+}
+
+describe('outputBudget', () => {
+  it('takes the smaller of both budgets, with a floor', () => {
+    expect(outputBudget({})).toBeUndefined()
+    expect(outputBudget({ maxChars: 5000 })).toBe(5000)
+    expect(outputBudget({ maxChars: 5000, maxOutputTokens: 1000 })).toBe(4000)
+    expect(outputBudget({ maxChars: 10 })).toBe(1000)
+    expect(outputBudget({ maxChars: 'lots' })).toBeUndefined()
+  })
+})
+
+describe('reduceOutput', () => {
+  it('drops rich text annotations but not properties with that name', () => {
+    const reduced = reduceOutput(page, { annotations: true })
+
+    expect(reduced.content[0].toggle.rich_text[0]).not.toHaveProperty('annotations')
+    expect(reduced.properties.annotations.rich_text[0]).not.toHaveProperty('annotations')
+    expect(reduced.properties).toHaveProperty('annotations')
+    expect(reduced.comments).toEqual(page.comments)
+  })
+
+  it('drops comments and children below a depth', () => {
+    const reduced = reduceOutput(page, { comments: true, maxBlockDepth: 1 })
+
+    expect(reduced).not.toHaveProperty('comments')
+    expect(reduced.content[0]).not.toHaveProperty('children')
+    expect(reduced.content[0]).toMatchObject({ id: 'block-1', has_children: true, children_omitted: true })
+    expect(page.content[0].children).toHaveLength(1)
+  })
+})
+
+describe('fitToBudget', () => {
+  it('applies reductions in order until the output fits', () => {
+    const render = (data: any) => JSON.stringify(data)
+    const full = render(page)
+    const withoutAnnotations = render(reduceOutput(page, { annotations: true }))
+    const withoutComments = render(reduceOutput(page, { annotations: true, comments: true }))
+
+    expect(fitToBudget(page, render, full.length)).toMatchObject({ fits: true, reductions: [] })
+    expect(fitToBudget(page, render, withoutAnnotations.length)).toMatchObject({ fits: true, reductions: ['annotations'] })
+    expect(fitToBudget(page, render, withoutComments.length - 1)).toMatchObject({
+      fits: true,
+      reductions: ['annotations', 'comments', 'children below depth 2'],
+    })
+    expect(fitToBudget(page, render, 10)).toMatchObject({
+      fits: false,
+      reductions: ['annotations', 'comments', 'children below depth 1'],
+    })
+  })
+})
+
+describe('sliceChunk', () => {
+  it('cuts at a line break that keeps most of the chunk', () => {
+    expect(sliceChunk('aaaaaaaaa\nbbbb', 0, 10)).toEqual({ chunk: 'aaaaaaaaa\n', nextOffset: 10 })
+    expect(sliceChunk('aa\nbbbbbbbbbbbb', 0, 10)).toEqual({ chunk: 'aa\nbbbbbbb', nextOffset: 10 })
+    expect(sliceChunk('aa\nbbbbbbbbbbbb', 10, 10)).toEqual({ chunk: 'bbbbb', nextOffset: undefined })
+  })
+
+  it('never splits a surrogate pair', () => {
+    expect(sliceChunk('abc😀def', 0, 4)).toEqual({ chunk: 'abc', nextOffset: 3 })
+  })
+})
+
+describe('ContinuationStore', () => {
+  it('resolves cursors of stored outputs', () => {
+    const store = new ContinuationStore()
+    const cursor = store.save({ pageId: 'page-1', format: 'json', text: 'x'.repeat(3000), maxChars: 1000 }, 1000)
+
+    expect(store.resolve(cursor)).toMatchObject({ offset: 1000, continuation: { pageId: 'page-1' } })
+    expect(store.resolve(store.next(cursor, 2000)!)).toMatchObject({ offset: 2000 })
+    expect(store.resolve(store.next(cursor, 3000)!)).toBeUndefined()
+    expect(store.resolve('not-a-cursor')).toBeUndefined()
+  })
+})
@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest'
+import { isStructuredContent, toOutputSchema } from '../output-schemas'
+
+describe('toOutputSchema', () => {
+  it('keeps object schemas, with every property optional', () => {
+    const schema = { type: 'object' as const, properties: { id: { type: 'string' as const } } }
+    expect(toOutputSchema(schema)).toEqual(schema)
+    expect(
+      toOutputSchema({
+        type: 'object',
+        required: ['results'],
+        properties: {
+          required: { type: 'boolean' },
+          results: { type: 'array', items: { type: 'object', required: ['id'], properties: { id: { type: 'string' } } } },
+        },
+      }),
+    ).toEqual({
+      type: 'object',
+      properties: {
+        required: { type: 'boolean' },
+        results: { type: 'array', items: { type: 'object', properties: { id: { type: 'string' } } } },
+      },
+    })
+  })
+
+  it('accepts references to object definitions', () => {
+    const schema = { $ref: '#/$defs/Page', $defs: { Page: { type: 'object' as const } } }
+    expect(toOutputSchema(schema)).toEqual({ ...schema, type: 'object' })
+    expect(toOutputSchema({ $ref: '#/$defs/Page', $defs: { Page: { type: 'object', required: ['id'] } } })).toEqual({
+      $ref: '#/$defs/Page',
+      $defs: { Page: { type: 'object' } },
+      type: 'object',
+    })
+  })
+
+  it('rejects schemas that do not describe an object', () => {
+    expect(toOutputSchema(undefined)).toBeUndefined()
+    expect(toOutputSchema({ type: 'string' })).toBeUndefined()
+    expect(toOutputSchema({ type: 'array', items: { type: 'object' } })).toBeUndefined()
+    expect(toOutputSchema({ $ref: '#/$defs/Ids', $defs: { Ids: { type: 'array' } } })).toBeUndefined()
+  })
+})
+
+describe('isStructuredContent', () => {
+  it('only accepts plain objects', () => {
+    expect(isStructuredContent({ id: 'page-1' })).toBe(true)
+    expect(isStructuredContent([{ id: 'page-1' }])).toBe(false)
+    expect(isStructuredContent(null)).toBe(false)
+    expect(isStructuredContent('text')).toBe(false)
+  })
+})
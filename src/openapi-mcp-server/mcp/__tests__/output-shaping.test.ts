@@ -0,0 +1,95 @@
+import { describe, expect, it } from 'vitest'
+import { extractShapingOptions, shapeOutput } from '../output-shaping'
+
+const richText = (text: string, annotations: Record<string, unknown> = {}) => ({
+  type: 'text',
+  plain_text: text,
+  text: { content: text, link: null },
+  annotations: { bold: false, italic: false, strikethrough: false, underline: false, code: false, color: 'default', ...annotations },
+  href: null,
+})
+
+const page = {
+  object: 'page',
+  id: 'page-1',
+  archived: false,
+  in_trash: false,
+  created_by: { object: 'user', id: 'user-1' },
+  last_edited_by: { object: 'user', id: 'user-1' },
+  icon: null,
+  properties: {
+    Name: { id: 'title', type: 'title', title: [richText('Roadmap')] },
+    Notes: { id: 'n', type: 'rich_text', rich_text: [richText('Ship '), richText('now', { bold: true })] },
+    Summary: { id: 's', type: 'rich_text', rich_text: [] },
+    Status: { id: 'st', type: 'select', select: { name: 'Done', color: 'green' } },
+  },
+}
+
+describe('extractShapingOptions', () => {
+  it('splits shaping parameters from the other arguments', () => {
+    expect(extractShapingOptions({ page_id: 'page-1', fields: 'id, properties.Name', compact: 'true' })).toEqual([
+      { fields: ['id', 'properties.Name'], compact: true },
+      { page_id: 'page-1' },
+    ])
+    expect(extractShapingOptions({ page_id: 'page-1', compact: false })).toEqual([undefined, { page_id: 'page-1' }])
+    expect(extractShapingOptions(undefined)).toEqual([undefined, {}])
+  })
+})
+
+describe('shapeOutput', () => {
+  it('keeps only the requested paths', () => {
+    expect(shapeOutput(page, { fields: ['id', 'properties.Status.select.name'] })).toEqual({
+      id: 'page-1',
+      properties: { Status: { select: { name: 'Done' } } },
+    })
+  })
+
+  it('drops excluded paths, traversing arrays', () => {
+    const shaped = shapeOutput(page, { exclude: ['properties', 'created_by.object'] })
+    expect(shaped).not.toHaveProperty('properties')
+    expect(shaped.created_by).toEqual({ id: 'user-1' })
+
+    const blocks = { content: [{ id: 'a', paragraph: { color: 'red' } }, { id: 'b' }] }
+    expect(shapeOutput(blocks, { exclude: ['content.paragraph'] })).toEqual({ content: [{ id: 'a' }, { id: 'b' }] })
+  })
+
+  it('shapes list items and keeps the list envelope', () => {
+    const list = { object: 'list', results: [page], has_more: true, next_cursor: 'next', request_id: 'req-1' }
+    expect(shapeOutput(list, { fields: ['id'] })).toEqual({ object: 'list', results: [{ id: 'page-1' }], has_more: true, next_cursor: 'next' })
+  })
+
+  it('strips boilerplate and defaults and collapses rich text when compact', () => {
+    expect(shapeOutput(page, { compact: true })).toEqual({
+      object: 'page',
+      id: 'page-1',
+      properties: {
+        Name: { id: 'title', type: 'title', title: 'Roadmap' },
+        Notes: { id: 'n', type: 'rich_text', rich_text: 'Ship **now**' },
+        Summary: { id: 's', type: 'rich_text', rich_text: '' },
+        Status: { id: 'st', type: 'select', select: { name: 'Done', color: 'green' } },
+      },
+    })
+    expect(page.properties.Name.title).toHaveLength(1)
+  })
+
+  it('can compact without collapsing rich text', () => {
+    const compacted = shapeOutput(page, { fields: ['properties.Name', 'properties.Summary'], compact: true }, true)
+    expect(compacted).toEqual({
+      properties: {
+        Name: {
+          id: 'title',
+          type: 'title',
+          title: [
+            {
+              type: 'text',
+              plain_text: 'Roadmap',
+              text: { content: 'Roadmap' },
+              annotations: { bold: false, italic: false, strikethrough: false, underline: false, code: false },
+            },
+          ],
+        },
+        Summary: { id: 's', type: 'rich_text', rich_text: [] },
+      },
+    })
+  })
+})
@@ -1,7 +1,18 @@
+import { readFileSync } from 'node:fs'
 import type { Transport } from '@modelcontextprotocol/sdk/shared/transport.js'
+import {
+  GetPromptRequestSchema,
+  ListPromptsRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  McpError,
+  ReadResourceRequestSchema,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+} from '@modelcontextprotocol/sdk/types.js'
 import { OpenAPIV3 } from 'openapi-types'
 import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
-import { HttpClient } from '../../client/http-client'
+import { HttpClient, HttpClientError } from '../../client/http-client'
 import { MCPProxy } from '../proxy'
 
 // Mock the dependencies
@@ -72,6 +83,78 @@ describe('MCPProxy', () => {
 
       expect(result.tools[0].name.length).toBeLessThanOrEqual(64)
     })
+
+    it('should not list operations that mutate data', async () => {
+      mockOpenApiSpec.paths = {
+        '/v1/pages/{page_id}': {
+          get: {
+            operationId: 'retrieve-a-page',
+            responses: { '200': { description: 'Success' } }
+          },
+          patch: {
+            operationId: 'patch-page',
+            responses: { '200': { description: 'Success' } }
+          }
+        },
+        '/v1/search': {
+          post: {
+            operationId: 'post-search',
+            responses: { '200': { description: 'Success' } }
+          }
+        }
+      }
+      proxy = new MCPProxy('test-proxy', mockOpenApiSpec)
+      const server = (proxy as any).server
+      const listToolsHandler = server.setRequestHandler.mock.calls[0].filter((x: unknown) => typeof x === 'function')[0]
+      const result = await listToolsHandler()
+
+      const toolNames = result.tools.map((tool: any) => tool.name)
+      expect(toolNames).toContain('API-retrieve-a-page')
+      expect(toolNames).toContain('API-post-search')
+      expect(toolNames).not.toContain('API-patch-page')
+    })
+
+    it('should advertise proxy-handled parameters for search', async () => {
+      mockOpenApiSpec.paths = {
+        '/v1/search': {
+          post: {
+            operationId: 'post-search',
+            responses: {
+              '200': {
+                description: 'Success'
+              }
+            }
+          }
+        }
+      }
+      proxy = new MCPProxy('test-proxy', mockOpenApiSpec)
+      const server = (proxy as any).server
+      const listToolsHandler = server.setRequestHandler.mock.calls[0].filter((x: unknown) => typeof x === 'function')[0]
+      const result = await listToolsHandler()
+
+      const searchTool = result.tools.find((tool: any) => tool.name === 'API-post-search')
+      expect(searchTool.inputSchema.properties).toHaveProperty('max_results')
+      expect(Object.keys(searchTool.inputSchema.properties)).toEqual(expect.arrayContaining(['fields', 'exclude', 'compact']))
+    })
+
+    it('annotates every tool as read-only', async () => {
+      const server = (proxy as any).server
+      const listToolsHandler = server.setRequestHandler.mock.calls[0].filter((x: unknown) => typeof x === 'function')[0]
+      const { tools } = await listToolsHandler()
+
+      for (const tool of tools) {
+        expect(tool.annotations, tool.name).toMatchObject({ readOnlyHint: true, title: expect.any(String) })
+      }
+      const byName = Object.fromEntries(tools.map((tool: any) => [tool.name, tool.annotations]))
+      expect(byName['API-getTest']).toEqual({
+        title: 'GetTest',
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true,
+      })
+      expect(byName['API-get-background-result']).toMatchObject({ openWorldHint: false })
+    })
   })
 
   describe('callTool handler', () => {
@@ -117,6 +200,441 @@ describe('MCPProxy', () => {
       })
     })
 
+    it('should follow pagination when querying a database', async () => {
+      const executeOperationMock = HttpClient.prototype.executeOperation as ReturnType<typeof vi.fn>
+      executeOperationMock
+        .mockResolvedValueOnce({
+          data: { object: 'list', results: [{ object: 'page', id: 'row-1' }], has_more: true, next_cursor: 'cursor-2' },
+          status: 200,
+          headers: new Headers({ 'content-type': 'application/json' }),
+        })
+        .mockResolvedValueOnce({
+          data: { object: 'list', results: [{ object: 'page', id: 'row-2' }], has_more: false, next_cursor: null },
+          status: 200,
+          headers: new Headers({ 'content-type': 'application/json' }),
+        })
+
+      const queryOperation = {
+        operationId: 'query-a-database',
+        responses: { '200': { description: 'Success' } },
+        method: 'post',
+        path: '/v1/databases/{database_id}/query',
+      }
+      ;(proxy as any).openApiLookup = {
+        'API-query-a-database': queryOperation,
+      }
+
+      const server = (proxy as any).server
+      const handlers = server.setRequestHandler.mock.calls.flatMap((x: unknown[]) => x).filter((x: unknown) => typeof x === 'function')
+      const callToolHandler = handlers[1]
+
+      const filter = { property: 'Done', checkbox: { equals: false } }
+      const result = await callToolHandler({
+        params: {
+          name: 'API-query-a-database',
+          arguments: { database_id: 'db-1', filter },
+        },
+      })
+
+      expect(executeOperationMock).toHaveBeenNthCalledWith(1, queryOperation, { database_id: 'db-1', filter, page_size: 100 }, { signal: undefined })
+      expect(executeOperationMock).toHaveBeenNthCalledWith(
+        2,
+        queryOperation,
+        { database_id: 'db-1', filter, page_size: 100, start_cursor: 'cursor-2' },
+        { signal: undefined },
+      )
+      expect(JSON.parse(result.content[0].text)).toEqual({
+        object: 'list',
+        results: [
+          { object: 'page', id: 'row-1' },
+          { object: 'page', id: 'row-2' },
+        ],
+        has_more: false,
+        next_cursor: null,
+      })
+    })
+
+    it('should stop querying a database at max_results and keep the cursor of the remaining rows', async () => {
+      const executeOperationMock = HttpClient.prototype.executeOperation as ReturnType<typeof vi.fn>
+      executeOperationMock
+        .mockResolvedValueOnce({
+          data: { object: 'list', results: [{ object: 'page', id: 'row-1' }, { object: 'page', id: 'row-2' }], has_more: true, next_cursor: 'cursor-2' },
+          status: 200,
+          headers: new Headers({ 'content-type': 'application/json' }),
+        })
+        .mockResolvedValueOnce({
+          data: { object: 'list', results: [{ object: 'page', id: 'row-3' }], has_more: true, next_cursor: 'cursor-3' },
+          status: 200,
+          headers: new Headers({ 'content-type': 'application/json' }),
+        })
+      const queryOperation = {
+        operationId: 'query-a-database',
+        responses: { '200': { description: 'Success' } },
+        method: 'post',
+        path: '/v1/databases/{database_id}/query',
+      }
+      ;(proxy as any).openApiLookup = { 'API-query-a-database': queryOperation }
+
+      const server = (proxy as any).server
+      const handlers = server.setRequestHandler.mock.calls.flatMap((x: unknown[]) => x).filter((x: unknown) => typeof x === 'function')
+      const result = await handlers[1]({ params: { name: 'API-query-a-database', arguments: { database_id: 'db-1', page_size: 2, max_results: 3 } } })
+
+      expect(executeOperationMock).toHaveBeenCalledTimes(2)
+      expect(executeOperationMock).toHaveBeenNthCalledWith(2, queryOperation, { database_id: 'db-1', page_size: 1, start_cursor: 'cursor-2' }, { signal: undefined })
+      expect(JSON.parse(result.content[0].text)).toMatchObject({
+        results: [{ id: 'row-1' }, { id: 'row-2' }, { id: 'row-3' }],
+        has_more: true,
+        next_cursor: 'cursor-3',
+      })
+    })
+
+    it('should flag an unsuccessful database query page as an error', async () => {
+      const executeOperationMock = HttpClient.prototype.executeOperation as ReturnType<typeof vi.fn>
+      executeOperationMock
+        .mockResolvedValueOnce({
+          data: { object: 'list', results: [{ object: 'page', id: 'row-1' }], has_more: true, next_cursor: 'cursor-2' },
+          status: 200,
+          headers: new Headers({ 'content-type': 'application/json' }),
+        })
+        .mockResolvedValueOnce({
+          data: { object: 'error', code: 'conflict_error' },
+          status: 202,
+          headers: new Headers({ 'content-type': 'application/json' }),
+        })
+      ;(proxy as any).openApiLookup = {
+        'API-query-a-database': { operationId: 'query-a-database', responses: {}, method: 'post', path: '/v1/databases/{database_id}/query' },
+      }
+
+      const server = (proxy as any).server
+      const handlers = server.setRequestHandler.mock.calls.flatMap((x: unknown[]) => x).filter((x: unknown) => typeof x === 'function')
+      const result = await handlers[1]({ params: { name: 'API-query-a-database', arguments: { database_id: 'db-1', fields: ['results'] } } })
+
+      expect(result.isError).toBe(true)
+      expect(JSON.parse(result.content[0].text)).toEqual({
+        status: 'error',
+        code: 202,
+        message: 'Request failed',
+        details: { object: 'error', code: 'conflict_error' },
+      })
+    })
+
+    it('should cap and compact search results', async () => {
+      const executeOperationMock = HttpClient.prototype.executeOperation as ReturnType<typeof vi.fn>
+      executeOperationMock
+        .mockResolvedValueOnce({
+          data: {
+            object: 'list',
+            results: [
+              {
+                object: 'page',
+                id: 'page-1',
+                url: 'https://www.notion.so/page-1',
+                parent: { type: 'workspace', workspace: true },
+                last_edited_time: '2024-01-02T00:00:00.000Z',
+                properties: { Name: { id: 'title', type: 'title', title: [{ type: 'text', plain_text: 'Roadmap' }] } },
+              },
+            ],
+            has_more: true,
+            next_cursor: 'cursor-2',
+          },
+          status: 200,
+          headers: new Headers({ 'content-type': 'application/json' }),
+        })
+        .mockResolvedValueOnce({
+          data: {
+            object: 'list',
+            results: [
+              {
+                object: 'database',
+                id: 'db-1',
+                url: 'https://www.notion.so/db-1',
+                parent: { type: 'page_id', page_id: 'page-1' },
+                last_edited_time: '2024-01-01T00:00:00.000Z',
+                title: [{ type: 'text', plain_text: 'Tasks' }],
+              },
+            ],
+            has_more: true,
+            next_cursor: 'cursor-3',
+          },
+          status: 200,
+          headers: new Headers({ 'content-type': 'application/json' }),
+        })
+
+      const searchOperation = {
+        operationId: 'post-search',
+        responses: { '200': { description: 'Success' } },
+        method: 'post',
+        path: '/v1/search',
+      }
+      ;(proxy as any).openApiLookup = {
+        'API-post-search': searchOperation,
+      }
+
+      const server = (proxy as any).server
+      const handlers = server.setRequestHandler.mock.calls.flatMap((x: unknown[]) => x).filter((x: unknown) => typeof x === 'function')
+      const callToolHandler = handlers[1]
+
+      const result = await callToolHandler({
+        params: {
+          name: 'API-post-search',
+          arguments: { query: 'road', max_results: 2 },
+        },
+      })
+
+      expect(executeOperationMock).toHaveBeenCalledTimes(2)
+      expect(executeOperationMock).toHaveBeenNthCalledWith(1, searchOperation, { query: 'road', page_size: 2 }, { signal: undefined })
+      expect(executeOperationMock).toHaveBeenNthCalledWith(2, searchOperation, { query: 'road', page_size: 1, start_cursor: 'cursor-2' }, { signal: undefined })
+      expect(JSON.parse(result.content[0].text)).toEqual({
+        object: 'list',
+        results: [
+          {
+            id: 'page-1',
+            object: 'page',
+            title: 'Roadmap',
+            url: 'https://www.notion.so/page-1',
+            parent: { type: 'workspace' },
+            last_edited_time: '2024-01-02T00:00:00.000Z',
+          },
+          {
+            id: 'db-1',
+            object: 'database',
+            title: 'Tasks',
+            url: 'https://www.notion.so/db-1',
+            parent: { type: 'page_id', id: 'page-1' },
+            last_edited_time: '2024-01-01T00:00:00.000Z',
+          },
+        ],
+        has_more: true,
+        next_cursor: 'cursor-3',
+      })
+    })
+
+    it('should refuse to execute mutating operations', async () => {
+      ;(proxy as any).openApiLookup = {
+        'API-delete-a-block': {
+          operationId: 'delete-a-block',
+          responses: { '200': { description: 'Success' } },
+          method: 'delete',
+          path: '/v1/blocks/{block_id}',
+        },
+      }
+
+      const server = (proxy as any).server
+      const handlers = server.setRequestHandler.mock.calls.flatMap((x: unknown[]) => x).filter((x: unknown) => typeof x === 'function')
+      const callToolHandler = handlers[1]
+
+      const result = await callToolHandler({
+        params: {
+          name: 'API-delete-a-block',
+          arguments: { block_id: 'block-1' },
+        },
+      })
+
+      expect(HttpClient.prototype.executeOperation).not.toHaveBeenCalled()
+      expect(result.isError).toBe(true)
+      expect(JSON.parse(result.content[0].text)).toEqual({
+        status: 'error',
+        code: 403,
+        message: 'Operation delete-a-block (DELETE) is not allowed: this server is read-only',
+        details: {
+          reason: 'read_only',
+          operation: 'delete-a-block',
+          method: 'DELETE',
+        },
+      })
+    })
+
+    it('should read block descendants in slices when chunked', async () => {
+      const children: Record<string, any[]> = {
+        'page-1': [
+          { object: 'block', id: 'toggle-1', type: 'toggle', has_children: true },
+          { object: 'block', id: 'paragraph-1', type: 'paragraph', has_children: false },
+        ],
+        'toggle-1': [{ object: 'block', id: 'nested-1', type: 'paragraph', has_children: false }],
+      }
+      const executeOperationMock = HttpClient.prototype.executeOperation as ReturnType<typeof vi.fn>
+      executeOperationMock.mockImplementation(async (_operation, params) => ({
+        data: { object: 'list', results: children[params.block_id] ?? [], has_more: false, next_cursor: null },
+        status: 200,
+        headers: new Headers({ 'content-type': 'application/json' }),
+      }))
+      const blockChildrenOperation = {
+        operationId: 'get-block-children',
+        responses: { '200': { description: 'Success' } },
+        method: 'get',
+        path: '/v1/blocks/{block_id}/children',
+      }
+      ;(proxy as any).openApiLookup = { 'API-get-block-children': blockChildrenOperation }
+
+      const server = (proxy as any).server
+      const handlers = server.setRequestHandler.mock.calls.flatMap((x: unknown[]) => x).filter((x: unknown) => typeof x === 'function')
+      const callJson = async (args: Record<string, unknown>) =>
+        JSON.parse((await handlers[1]({ params: { name: 'API-get-block-children', arguments: args } })).content[0].text)
+
+      const first = await callJson({ block_id: 'page-1', chunked: true, max_blocks: 2 })
+      expect(first.results.map((block: any) => [block.id, block.depth])).toEqual([
+        ['toggle-1', 1],
+        ['nested-1', 2],
+      ])
+      expect(first.has_more).toBe(true)
+      expect(executeOperationMock).toHaveBeenCalledWith(blockChildrenOperation, { block_id: 'page-1', page_size: 100 }, { signal: undefined })
+
+      const second = await callJson({ block_id: 'page-1', chunked: true, max_blocks: 2, start_cursor: first.next_cursor })
+      expect(second).toEqual({
+        object: 'list',
+        results: [{ ...children['page-1'][1], depth: 1 }],
+        has_more: false,
+        next_cursor: null,
+      })
+
+      const mismatch = await callJson({ block_id: 'other-page', chunked: true, start_cursor: first.next_cursor })
+      expect(mismatch).toMatchObject({ status: 'error', code: 400 })
+    })
+
+    it('should merge the pages of paginated property items', async () => {
+      const relation = (index: number) => ({ object: 'property_item', id: 'rel', type: 'relation', relation: { id: `page-${index}` } })
+      const executeOperationMock = HttpClient.prototype.executeOperation as ReturnType<typeof vi.fn>
+      executeOperationMock.mockImplementation(async (_operation, params) => {
+        // Pages of 25 items, the last one ending at 40 items, or never ending for the `endless` property
+        const start = Number(params.start_cursor ?? 0)
+        const end = params.property_id === 'endless' ? start + 100 : Math.min(start + 25, 40)
+        const more = params.property_id === 'endless' || end < 40
+        return {
+          data: {
+            object: 'list',
+            type: 'property_item',
+            results: Array.from({ length: end - start }, (_, index) => relation(start + index)),
+            has_more: more,
+            next_cursor: more ? String(end) : null,
+            property_item: { id: 'rel', type: 'relation', relation: {} },
+          },
+          status: 200,
+          headers: new Headers({ 'content-type': 'application/json' }),
+        }
+      })
+      ;(proxy as any).openApiLookup = {
+        'API-retrieve-a-page-property': {
+          operationId: 'retrieve-a-page-property',
+          responses: { '200': { description: 'Success' } },
+          method: 'get',
+          path: '/v1/pages/{page_id}/properties/{property_id}',
+        },
+      }
+
+      const server = (proxy as any).server
+      const handlers = server.setRequestHandler.mock.calls.flatMap((x: unknown[]) => x).filter((x: unknown) => typeof x === 'function')
+      const callJson = async (args: Record<string, unknown>) =>
+        JSON.parse((await handlers[1]({ params: { name: 'API-retrieve-a-page-property', arguments: args } })).content[0].text)
+
+      const complete = await callJson({ page_id: 'page-1', property_id: 'rel' })
+      expect(complete.results).toHaveLength(40)
+      expect(complete.results[39].relation.id).toBe('page-39')
+      expect(complete).toMatchObject({ has_more: false, next_cursor: null, truncated: false, property_item: { type: 'relation' } })
+      expect(executeOperationMock).toHaveBeenCalledTimes(2)
+
+      executeOperationMock.mockClear()
+      const truncated = await callJson({ page_id: 'page-1', property_id: 'endless' })
+      expect(truncated.results).toHaveLength(1000)
+      expect(truncated).toMatchObject({ has_more: true, next_cursor: '1000', truncated: true })
+      expect(executeOperationMock).toHaveBeenCalledTimes(10)
+    })
+
+    it('should keep the property items retrieved before a failing page', async () => {
+      const executeOperationMock = HttpClient.prototype.executeOperation as ReturnType<typeof vi.fn>
+      executeOperationMock.mockImplementation(async (_operation, params) => {
+        if (params.start_cursor) {
+          throw new HttpClientError('Service unavailable', 503, { object: 'error' })
+        }
+        return {
+          data: {
+            object: 'list',
+            results: [{ object: 'property_item', id: 'rel', type: 'relation', relation: { id: 'page-0' } }],
+            has_more: true,
+            next_cursor: 'page-2',
+          },
+          status: 200,
+          headers: new Headers({ 'content-type': 'application/json' }),
+        }
+      })
+      ;(proxy as any).openApiLookup = {
+        'API-retrieve-a-page-property': {
+          operationId: 'retrieve-a-page-property',
+          responses: { '200': { description: 'Success' } },
+          method: 'get',
+          path: '/v1/pages/{page_id}/properties/{property_id}',
+        },
+      }
+
+      const server = (proxy as any).server
+      const handlers = server.setRequestHandler.mock.calls.flatMap((x: unknown[]) => x).filter((x: unknown) => typeof x === 'function')
+      const result = await handlers[1]({ params: { name: 'API-retrieve-a-page-property', arguments: { page_id: 'page-1', property_id: 'rel' } } })
+
+      expect(result.isError).toBeUndefined()
+      expect(JSON.parse(result.content[0].text)).toMatchObject({
+        results: [{ relation: { id: 'page-0' } }],
+        has_more: true,
+        next_cursor: 'page-2',
+        truncated: true,
+      })
+    })
+
+    it('should flag an unsuccessful search page as an error', async () => {
+      ;(HttpClient.prototype.executeOperation as ReturnType<typeof vi.fn>).mockResolvedValueOnce({
+        data: { object: 'error', code: 'conflict_error' },
+        status: 202,
+        headers: new Headers({ 'content-type': 'application/json' }),
+      })
+      ;(proxy as any).openApiLookup = {
+        'API-post-search': { operationId: 'post-search', responses: {}, method: 'post', path: '/v1/search' },
+      }
+
+      const server = (proxy as any).server
+      const handlers = server.setRequestHandler.mock.calls.flatMap((x: unknown[]) => x).filter((x: unknown) => typeof x === 'function')
+      const result = await handlers[1]({ params: { name: 'API-post-search', arguments: { query: 'road', compact: true } } })
+
+      expect(result.isError).toBe(true)
+      expect(JSON.parse(result.content[0].text)).toEqual({
+        status: 'error',
+        code: 202,
+        message: 'Request failed',
+        details: { object: 'error', code: 'conflict_error' },
+      })
+    })
+
+    it('should shape results without forwarding the shaping parameters', async () => {
+      const executeOperationMock = HttpClient.prototype.executeOperation as ReturnType<typeof vi.fn>
+      executeOperationMock.mockResolvedValue({
+        data: {
+          object: 'page',
+          id: 'page-1',
+          archived: false,
+          created_by: { object: 'user', id: 'user-1' },
+          properties: {
+            Name: { type: 'title', title: [{ type: 'text', plain_text: 'Roadmap', text: { content: 'Roadmap' } }] },
+            Status: { type: 'select', select: { name: 'Done', color: 'default' } },
+          },
+        },
+        status: 200,
+        headers: new Headers({ 'content-type': 'application/json' }),
+      })
+      const retrievePageOperation = {
+        operationId: 'retrieve-a-page',
+        responses: { '200': { description: 'Success' } },
+        method: 'get',
+        path: '/v1/pages/{page_id}',
+      }
+      ;(proxy as any).openApiLookup = { 'API-retrieve-a-page': retrievePageOperation }
+
+      const server = (proxy as any).server
+      const handlers = server.setRequestHandler.mock.calls.flatMap((x: unknown[]) => x).filter((x: unknown) => typeof x === 'function')
+      const result = await handlers[1]({
+        params: { name: 'API-retrieve-a-page', arguments: { page_id: 'page-1', fields: 'id,properties.Name', compact: true } },
+      })
+
+      expect(JSON.parse(result.content[0].text)).toEqual({ id: 'page-1', properties: { Name: { type: 'title', title: 'Roadmap' } } })
+      expect(executeOperationMock).toHaveBeenCalledWith(retrievePageOperation, { page_id: 'page-1' }, expect.anything())
+    })
+
     it('should throw error for non-existent operation', async () => {
       const server = (proxy as any).server
       const handlers = server.setRequestHandler.mock.calls.flatMap((x: unknown[]) => x).filter((x: unknown) => typeof x === 'function')
@@ -188,6 +706,433 @@ describe('MCPProxy', () => {
     })
   })
 
+  describe('structured output', () => {
+    beforeEach(() => {
+      mockOpenApiSpec.paths = {
+        '/v1/pages/{page_id}': {
+          get: {
+            operationId: 'retrieve-a-page',
+            parameters: [{ name: 'page_id', in: 'path', required: true, schema: { type: 'string' } }],
+            responses: {
+              '200': {
+                description: 'Success',
+                content: {
+                  'application/json': {
+                    schema: {
+                      type: 'object',
+                      properties: { object: { type: 'string' }, id: { type: 'string' } },
+                    },
+                  },
+                },
+              },
+            },
+          },
+        },
+        '/v1/users': {
+          get: {
+            operationId: 'get-users',
+            responses: {
+              '200': {
+                description: 'Success',
+                content: { 'application/json': { schema: { type: 'array', items: { type: 'object' } } } },
+              },
+            },
+          },
+        },
+      }
+      proxy = new MCPProxy('test-proxy', mockOpenApiSpec)
+    })
+
+    const handlers = () =>
+      (proxy as any).server.setRequestHandler.mock.calls.flatMap((x: unknown[]) => x).filter((x: unknown) => typeof x === 'function')
+
+    it('publishes the response schema of operations returning objects as output schema', async () => {
+      const { tools } = await handlers()[0]()
+      const byName = Object.fromEntries(tools.map((tool: any) => [tool.name, tool]))
+
+      expect(byName['API-retrieve-a-page'].outputSchema).toMatchObject({
+        type: 'object',
+        properties: { object: { type: 'string' }, id: { type: 'string' } },
+      })
+      expect(byName['API-get-users']).not.toHaveProperty('outputSchema')
+      expect(byName['API-get-one-pager'].outputSchema.type).toBe('object')
+      expect(byName['API-get-background-result'].outputSchema.type).toBe('object')
+    })
+
+    it('publishes output schemas for the operations of the bundled Notion spec', async () => {
+      const notionSpec = JSON.parse(readFileSync(new URL('../../../../scripts/notion-openapi.json', import.meta.url), 'utf-8'))
+      proxy = new MCPProxy('test-proxy', notionSpec)
+      const { tools } = await handlers()[0]()
+      const withOutputSchema = tools.filter((tool: any) => tool.name.startsWith('API-') && tool.outputSchema?.type === 'object')
+
+      // Search results are compacted by the proxy, so its response schema does not apply
+      expect(withOutputSchema.map((tool: any) => tool.name).sort()).toEqual([
+        'API-get-background-result',
+        'API-get-block-children',
+        'API-get-one-pager',
+        'API-query-a-database',
+        'API-retrieve-a-block',
+        'API-retrieve-a-comment',
+        'API-retrieve-a-database',
+        'API-retrieve-a-page',
+        'API-retrieve-a-page-property',
+      ])
+    })
+
+    it('returns structured content alongside the text of operations with an output schema', async () => {
+      const page = { object: 'page', id: 'page-1' }
+      ;(HttpClient.prototype.executeOperation as ReturnType<typeof vi.fn>).mockResolvedValue({
+        data: page,
+        status: 200,
+        headers: new Headers({ 'content-type': 'application/json' }),
+      })
+
+      const result = await handlers()[1]({ params: { name: 'API-retrieve-a-page', arguments: { page_id: 'page-1' } } })
+
+      expect(result).toEqual({
+        content: [{ type: 'text', text: JSON.stringify(page) }],
+        structuredContent: page,
+      })
+    })
+
+    it('returns shaped results as structured content, keeping rich text uncollapsed', async () => {
+      const title = [{ type: 'text', plain_text: 'Roadmap', text: { content: 'Roadmap' } }]
+      ;(HttpClient.prototype.executeOperation as ReturnType<typeof vi.fn>).mockResolvedValue({
+        data: { object: 'page', id: 'page-1', created_by: { object: 'user', id: 'user-1' }, title },
+        status: 200,
+        headers: new Headers({ 'content-type': 'application/json' }),
+      })
+
+      const projected = await handlers()[1]({ params: { name: 'API-retrieve-a-page', arguments: { page_id: 'page-1', fields: ['id'] } } })
+      expect(projected).toEqual({
+        content: [{ type: 'text', text: JSON.stringify({ id: 'page-1' }) }],
+        structuredContent: { id: 'page-1' },
+      })
+
+      const compacted = await handlers()[1]({
+        params: { name: 'API-retrieve-a-page', arguments: { page_id: 'page-1', fields: ['id', 'created_by', 'title'], compact: true } },
+      })
+      expect(compacted).toEqual({
+        content: [{ type: 'text', text: JSON.stringify({ id: 'page-1', title: 'Roadmap' }) }],
+        structuredContent: { id: 'page-1', title },
+      })
+    })
+
+    it('leaves every property of output schemas optional, since shaping may drop any of them', async () => {
+      const pageSchema = (mockOpenApiSpec.paths['/v1/pages/{page_id}']!.get!.responses['200'] as OpenAPIV3.ResponseObject).content!['application/json']
+      pageSchema.schema = {
+        type: 'object',
+        required: ['object', 'id'],
+        properties: { object: { type: 'string' }, id: { type: 'string' }, parent: { type: 'object', required: ['type'] } },
+      }
+      proxy = new MCPProxy('test-proxy', mockOpenApiSpec)
+
+      const { tools } = await handlers()[0]()
+      const outputSchema = tools.find((tool: any) => tool.name === 'API-retrieve-a-page').outputSchema
+
+      expect(outputSchema).not.toHaveProperty('required')
+      expect(outputSchema.properties.parent).not.toHaveProperty('required')
+    })
+
+    it('returns background jobs and their results as structured content', async () => {
+      ;(HttpClient.prototype.executeOperation as ReturnType<typeof vi.fn>).mockImplementation(async (operation) => ({
+        data: operation.operationId === 'retrieve-a-page' ? { object: 'page', id: 'page-1', properties: {} } : { results: [] },
+        status: 200,
+        headers: new Headers({ 'content-type': 'application/json' }),
+      }))
+      const callTool = (name: string, args: Record<string, unknown>) => handlers()[1]({ params: { name, arguments: args } })
+
+      const started = await callTool('API-get-one-pager', { page_id: 'page-1', includeComments: false, includeProperties: false })
+      expect(started.structuredContent).toEqual(JSON.parse(started.content[0].text))
+      expect(started.structuredContent).toMatchObject({ status: 'queued', page_id: 'page-1' })
+
+      await vi.waitFor(async () => {
+        const result = await callTool('API-get-background-result', { job_id: started.structuredContent.job_id })
+        expect(result.structuredContent).toMatchObject({ object: 'page', id: 'page-1', _meta: { processedInBackground: true } })
+      })
+      const missing = await callTool('API-get-background-result', { job_id: 'missing' })
+      expect(missing.structuredContent).toMatchObject({ status: 'not_found', job_id: 'missing' })
+    })
+
+    it('flags failed calls as errors', async () => {
+      ;(HttpClient.prototype.executeOperation as ReturnType<typeof vi.fn>).mockRejectedValue(new Error('socket hang up'))
+
+      const result = await handlers()[1]({ params: { name: 'API-retrieve-a-page', arguments: { page_id: 'page-1' } } })
+
+      expect(result.isError).toBe(true)
+      expect(result).not.toHaveProperty('structuredContent')
+    })
+
+    it('returns unsuccessful responses as unshaped errors', async () => {
+      const notionError = { object: 'error', status: 202, code: 'conflict_error', message: 'Try again' }
+      ;(HttpClient.prototype.executeOperation as ReturnType<typeof vi.fn>).mockResolvedValue({
+        data: notionError,
+        status: 202,
+        headers: new Headers({ 'content-type': 'application/json' }),
+      })
+
+      const result = await handlers()[1]({ params: { name: 'API-retrieve-a-page', arguments: { page_id: 'page-1', fields: ['id'] } } })
+
+      expect(result).toEqual({
+        content: [{ type: 'text', text: JSON.stringify({ status: 'error', code: 202, message: 'Request failed', details: notionError }) }],
+        isError: true,
+      })
+    })
+  })
+
+  describe('cache tools', () => {
+    const callToolResult = async (name: string, args: Record<string, unknown> = {}) => {
+      const server = (proxy as any).server
+      const handlers = server.setRequestHandler.mock.calls.flatMap((x: unknown[]) => x).filter((x: unknown) => typeof x === 'function')
+      return handlers[1]({ params: { name, arguments: args } })
+    }
+    const callTool = async (name: string, args: Record<string, unknown> = {}) =>
+      JSON.parse((await callToolResult(name, args)).content[0].text)
+
+    it('should report statistics and invalidate a subtree', async () => {
+      const cache = (proxy as any).cache
+      cache.pages.set('1a2b3c4d-0000-0000-0000-000000000001', { id: '1a2b3c4d-0000-0000-0000-000000000001' })
+      cache.blockChildren.set('1a2b3c4d-0000-0000-0000-000000000001', [{ id: 'block-1' }])
+      cache.blockChildren.set('block-1', [{ id: 'block-2' }])
+      cache.blocks.set('block-2', { id: 'block-2' })
+      cache.pages.set('other-page', { id: 'other-page' })
+      cache.pages.get('other-page')
+
+      const stats = await callTool('API-get-cache-stats')
+      expect(stats.total).toMatchObject({ entries: 5, hits: 1 })
+      expect(stats.types.blockChildren.entries).toBe(2)
+      expect(stats.persistent).toBe(false)
+
+      const invalidated = await callTool('API-invalidate-cache', { object_id: '1a2b3c4d000000000000000000000001', subtree: true })
+      expect(invalidated).toMatchObject({ status: 'success', removed: 4 })
+      expect(cache.pages.keys()).toEqual(['other-page'])
+
+      await callTool('API-invalidate-cache', { all: true })
+      expect((await callTool('API-get-cache-stats')).total.entries).toBe(0)
+    })
+
+    it('should require an object id or all', async () => {
+      const result = await callToolResult('API-invalidate-cache')
+      expect(result.isError).toBe(true)
+      expect(JSON.parse(result.content[0].text)).toMatchObject({ status: 'error', code: 400 })
+    })
+
+    it('should flag invalid warm-up and cancellation requests as errors', async () => {
+      const warmUp = await callToolResult('API-warm-cache', { page_ids: [] })
+      expect(warmUp.isError).toBe(true)
+      expect(JSON.parse(warmUp.content[0].text)).toMatchObject({ status: 'error', code: 400 })
+
+      const cancellation = await callToolResult('API-cancel-background-job', { job_id: 'missing' })
+      expect(cancellation.isError).toBe(true)
+      expect(JSON.parse(cancellation.content[0].text)).toMatchObject({ status: 'not_found', job_id: 'missing' })
+    })
+
+    it('should advertise cache tools and skipCache', async () => {
+      const server = (proxy as any).server
+      const listToolsHandler = server.setRequestHandler.mock.calls[0].filter((x: unknown) => typeof x === 'function')[0]
+      const { tools } = await listToolsHandler()
+      const names = tools.map((tool: { name: string }) => tool.name)
+
+      expect(names).toEqual(expect.arrayContaining(['API-get-cache-stats', 'API-invalidate-cache', 'API-warm-cache']))
+      const onePager = tools.find((tool: { name: string }) => tool.name === 'API-get-one-pager')
+      expect(onePager.inputSchema.properties.skipCache).toBeDefined()
+    })
+  })
+
+  describe('resources', () => {
+    const getHandler = (schema: unknown) => {
+      const server = (proxy as any).server
+      const call = server.setRequestHandler.mock.calls.find(([registered]: unknown[]) => registered === schema)
+      return call[1]
+    }
+
+    const page = (id: string, title: string) => ({
+      object: 'page',
+      id,
+      last_edited_time: '2024-01-01T00:00:00.000Z',
+      properties: { Name: { type: 'title', title: [{ plain_text: title }] } },
+    })
+
+    it('should list cached pages and databases, most recently used first', async () => {
+      const cache = (proxy as any).cache
+      cache.pages.set('page-1', page('page-1', 'First'))
+      cache.pages.set('page-2', page('page-2', 'Second'))
+      cache.databases.set('db-1', { object: 'database', id: 'db-1', title: [{ plain_text: 'Tasks' }] })
+
+      const { resources, nextCursor } = await getHandler(ListResourcesRequestSchema)({ params: {} })
+
+      expect(resources.map((resource: { uri: string }) => resource.uri)).toEqual([
+        'notion://page/page-2',
+        'notion://page/page-2/markdown',
+        'notion://page/page-1',
+        'notion://page/page-1/markdown',
+        'notion://database/db-1',
+      ])
+      expect(resources[1]).toMatchObject({ name: 'Second (Markdown)', mimeType: 'text/markdown' })
+      expect(nextCursor).toBeUndefined()
+    })
+
+    it('should page through long listings', async () => {
+      const cache = (proxy as any).cache
+      for (let i = 0; i < 60; i++) {
+        cache.pages.set(`page-${i}`, page(`page-${i}`, `Page ${i}`))
+      }
+
+      const first = await getHandler(ListResourcesRequestSchema)({ params: {} })
+      const second = await getHandler(ListResourcesRequestSchema)({ params: { cursor: first.nextCursor } })
+
+      expect(first.resources).toHaveLength(100)
+      expect(second.resources).toHaveLength(20)
+      expect(second.nextCursor).toBeUndefined()
+      await expect(getHandler(ListResourcesRequestSchema)({ params: { cursor: 'x' } })).rejects.toThrow(McpError)
+    })
+
+    it('should advertise the URI templates', async () => {
+      const { resourceTemplates } = await getHandler(ListResourceTemplatesRequestSchema)({})
+
+      expect(resourceTemplates.map((template: { uriTemplate: string }) => template.uriTemplate)).toEqual([
+        'notion://page/{id}',
+        'notion://page/{id}/markdown',
+        'notion://database/{id}',
+        'notion://block/{id}/children',
+      ])
+    })
+
+    it('should read pages from the cache and block children from the API', async () => {
+      ;(proxy as any).openApiLookup = {
+        'API-get-block-children': { operationId: 'get-block-children', method: 'get', path: '/v1/blocks/{block_id}/children' },
+      }
+      ;(proxy as any).cache.pages.set('page-1', page('page-1', 'First'))
+      const executeOperationMock = HttpClient.prototype.executeOperation as ReturnType<typeof vi.fn>
+      executeOperationMock.mockResolvedValue({
+        data: { object: 'list', results: [{ id: 'block-1' }], next_cursor: null, has_more: false },
+        status: 200,
+        headers: new Headers(),
+      })
+      const readResource = getHandler(ReadResourceRequestSchema)
+
+      const pageResult = await readResource({ params: { uri: 'notion://page/page-1' } }, {})
+      expect(pageResult.contents[0]).toMatchObject({ uri: 'notion://page/page-1', mimeType: 'application/json' })
+      expect(JSON.parse(pageResult.contents[0].text).id).toBe('page-1')
+
+      const childrenResult = await readResource({ params: { uri: 'notion://block/page-1/children' } }, {})
+      expect(JSON.parse(childrenResult.contents[0].text).results).toEqual([{ id: 'block-1' }])
+      expect(executeOperationMock).toHaveBeenCalledTimes(1)
+    })
+
+    it('should notify subscribers when a page is edited', async () => {
+      vi.useFakeTimers()
+      proxy = new MCPProxy('test-proxy', mockOpenApiSpec, { subscriptions: { intervalMs: 1000 } })
+      ;(proxy as any).openApiLookup = {
+        'API-retrieve-a-page': { operationId: 'retrieve-a-page', method: 'get', path: '/v1/pages/{page_id}' },
+      }
+      const executeOperationMock = HttpClient.prototype.executeOperation as ReturnType<typeof vi.fn>
+      executeOperationMock.mockResolvedValueOnce({ data: page('page-1', 'First'), status: 200, headers: new Headers() })
+      executeOperationMock.mockResolvedValue({
+        data: { ...page('page-1', 'First'), last_edited_time: '2024-02-01T00:00:00.000Z' },
+        status: 200,
+        headers: new Headers(),
+      })
+      const server = (proxy as any).server
+
+      try {
+        await getHandler(SubscribeRequestSchema)({ params: { uri: 'notion://page/page-1/markdown' } }, {})
+        await vi.advanceTimersByTimeAsync(1000)
+
+        expect(server.sendResourceUpdated).toHaveBeenCalledWith({ uri: 'notion://page/page-1/markdown' })
+        expect((proxy as any).cache.pages.get('page-1').last_edited_time).toBe('2024-02-01T00:00:00.000Z')
+
+        await getHandler(UnsubscribeRequestSchema)({ params: { uri: 'notion://page/page-1/markdown' } })
+        await vi.advanceTimersByTimeAsync(5000)
+        expect(executeOperationMock).toHaveBeenCalledTimes(2)
+      } finally {
+        vi.useRealTimers()
+      }
+    })
+
+    it('should not report edits made before the subscription', async () => {
+      vi.useFakeTimers()
+      proxy = new MCPProxy('test-proxy', mockOpenApiSpec, { subscriptions: { intervalMs: 1000 } })
+      ;(proxy as any).openApiLookup = {
+        'API-retrieve-a-page': { operationId: 'retrieve-a-page', method: 'get', path: '/v1/pages/{page_id}' },
+      }
+      ;(proxy as any).cache.pages.set('page-1', page('page-1', 'First'))
+      ;(HttpClient.prototype.executeOperation as ReturnType<typeof vi.fn>).mockResolvedValue({
+        data: { ...page('page-1', 'First'), last_edited_time: '2024-02-01T00:00:00.000Z' },
+        status: 200,
+        headers: new Headers(),
+      })
+      const server = (proxy as any).server
+
+      try {
+        await getHandler(SubscribeRequestSchema)({ params: { uri: 'notion://page/page-1/markdown' } }, {})
+        await vi.advanceTimersByTimeAsync(1000)
+
+        expect(server.sendResourceUpdated).not.toHaveBeenCalled()
+        await getHandler(UnsubscribeRequestSchema)({ params: { uri: 'notion://page/page-1/markdown' } })
+      } finally {
+        vi.useRealTimers()
+      }
+    })
+
+    it('should reject unsupported URIs', async () => {
+      await expect(getHandler(ReadResourceRequestSchema)({ params: { uri: 'notion://user/abc' } }, {})).rejects.toThrow(
+        'Unsupported resource URI',
+      )
+    })
+  })
+
+  describe('prompts', () => {
+    const getHandler = (schema: unknown) => {
+      const server = (proxy as any).server
+      const call = server.setRequestHandler.mock.calls.find(([registered]: unknown[]) => registered === schema)
+      return call[1]
+    }
+
+    it('should list the built-in prompts with their arguments', async () => {
+      const { prompts } = await getHandler(ListPromptsRequestSchema)({})
+
+      expect(prompts.map((prompt: { name: string }) => prompt.name)).toEqual([
+        'summarize-notion-page',
+        'extract-action-items',
+        'explain-database-schema',
+        'compare-notion-pages',
+      ])
+      expect(prompts[3].arguments.map((argument: { name: string }) => argument.name)).toEqual(['page_id', 'other_page_id'])
+      expect(prompts[0]).not.toHaveProperty('content')
+    })
+
+    it('should embed the database schema followed by the task', async () => {
+      ;(proxy as any).cache.databases.set('db-1', {
+        object: 'database',
+        id: 'db-1',
+        title: [{ plain_text: 'Tasks' }],
+        properties: { Name: { type: 'title', title: {} } },
+      })
+
+      const result = await getHandler(GetPromptRequestSchema)({
+        params: { name: 'explain-database-schema', arguments: { database_id: 'db-1' } },
+      }, {})
+
+      expect(result.messages).toHaveLength(2)
+      expect(result.messages[0].content).toMatchObject({
+        type: 'resource',
+        resource: { uri: 'notion://database/db-1', mimeType: 'text/markdown' },
+      })
+      expect(result.messages[0].content.resource.text).toContain('| Name | title |')
+      expect(result.messages[1].content.type).toBe('text')
+    })
+
+    it('should reject unknown prompts and missing arguments', async () => {
+      const getPrompt = getHandler(GetPromptRequestSchema)
+
+      await expect(getPrompt({ params: { name: 'write-page' } }, {})).rejects.toThrow('Unknown prompt')
+      await expect(getPrompt({ params: { name: 'compare-notion-pages', arguments: { page_id: 'a' } } }, {})).rejects.toThrow(
+        'other_page_id',
+      )
+    })
+  })
+
   describe('getContentType', () => {
     it('should return correct content type for different headers', () => {
       const getContentType = (proxy as any).getContentType.bind(proxy)
@@ -229,6 +1174,24 @@ describe('MCPProxy', () => {
       )
     })
 
+    it('should use the session token instead of the Authorization header from env', () => {
+      process.env.OPENAPI_MCP_HEADERS = JSON.stringify({
+        authorization: 'Bearer token123',
+        'Notion-Version': '2022-06-28',
+      })
+
+      new MCPProxy('test-proxy', mockOpenApiSpec, { notionToken: 'session-token' })
+      expect(HttpClient).toHaveBeenCalledWith(
+        expect.objectContaining({
+          headers: {
+            Authorization: 'Bearer session-token',
+            'Notion-Version': '2022-06-28',
+          },
+        }),
+        expect.anything(),
+      )
+    })
+
     it('should return empty object when env var is not set', () => {
       delete process.env.OPENAPI_MCP_HEADERS
 
@@ -0,0 +1,27 @@
+import { describe, expect, it } from 'vitest'
+import { parseResourceUri, RESOURCE_TEMPLATES, resourceUri } from '../resources'
+
+describe('parseResourceUri', () => {
+  it('parses every advertised template', () => {
+    expect(parseResourceUri('notion://page/abc')).toEqual({ kind: 'page', id: 'abc' })
+    expect(parseResourceUri('notion://page/abc/markdown')).toEqual({ kind: 'pageMarkdown', id: 'abc' })
+    expect(parseResourceUri('notion://database/def')).toEqual({ kind: 'database', id: 'def' })
+    expect(parseResourceUri('notion://block/ghi/children')).toEqual({ kind: 'blockChildren', id: 'ghi' })
+    expect(RESOURCE_TEMPLATES).toHaveLength(4)
+  })
+
+  it('rejects unsupported URIs', () => {
+    expect(parseResourceUri('notion://page/abc/children')).toBeUndefined()
+    expect(parseResourceUri('notion://block/abc')).toBeUndefined()
+    expect(parseResourceUri('notion://user/abc')).toBeUndefined()
+    expect(parseResourceUri('https://www.notion.so/abc')).toBeUndefined()
+    expect(parseResourceUri('notion://page/%E0%A4%A')).toBeUndefined()
+  })
+
+  it('round-trips with resourceUri', () => {
+    const ref = { kind: 'pageMarkdown' as const, id: '1a2b3c4d-0000-0000-0000-000000000001' }
+
+    expect(resourceUri(ref)).toBe('notion://page/1a2b3c4d-0000-0000-0000-000000000001/markdown')
+    expect(parseResourceUri(resourceUri(ref))).toEqual(ref)
+  })
+})
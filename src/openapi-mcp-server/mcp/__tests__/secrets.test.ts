@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest'
+import { fingerprintSecret, parseBearerToken, redactSecrets } from '../secrets'
+
+describe('redactSecrets', () => {
+  it('removes bearer credentials and Notion tokens', () => {
+    expect(redactSecrets('Authorization: Bearer abc.def-123')).toBe('Authorization: Bearer [REDACTED]')
+    expect(redactSecrets('token ntn_1234567890abcdef and secret_ABCDEFGHIJKLMNOP')).toBe('token [REDACTED] and [REDACTED]')
+  })
+
+  it('removes exact secrets, optionally leaving lookalikes untouched', () => {
+    expect(redactSecrets('key=custom-key', ['custom-key'])).toBe('key=[REDACTED]')
+    expect(redactSecrets('see ntn_1234567890abcdef, key custom-key', ['custom-key'], { patterns: false })).toBe(
+      'see ntn_1234567890abcdef, key [REDACTED]',
+    )
+  })
+})
+
+describe('fingerprintSecret', () => {
+  it('identifies a secret without revealing it', () => {
+    const fingerprint = fingerprintSecret('ntn_1234567890abcdef')
+
+    expect(fingerprint).toMatch(/^[0-9a-f]{16}$/)
+    expect(fingerprint).toBe(fingerprintSecret('ntn_1234567890abcdef'))
+    expect(fingerprint).not.toBe(fingerprintSecret('ntn_other'))
+  })
+})
+
+describe('parseBearerToken', () => {
+  it('extracts the token of a bearer Authorization header', () => {
+    expect(parseBearerToken('Bearer ntn_token')).toBe('ntn_token')
+    expect(parseBearerToken('bearer  ntn_token ')).toBe('ntn_token')
+    expect(parseBearerToken('Basic dXNlcjpwYXNz')).toBeUndefined()
+    expect(parseBearerToken(undefined)).toBeUndefined()
+  })
+})
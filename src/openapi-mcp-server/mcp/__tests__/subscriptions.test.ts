@@ -0,0 +1,88 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { HttpClientError } from '../../client/http-client'
+import { SubscriptionPoller } from '../subscriptions'
+
+describe('SubscriptionPoller', () => {
+  beforeEach(() => {
+    vi.useFakeTimers()
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('notifies every URI of an object whose last_edited_time changed', async () => {
+    const versions: Record<string, string> = { page: 'v1' }
+    const fetchVersion = vi.fn(async () => versions.page)
+    const notify = vi.fn().mockResolvedValue(undefined)
+    const poller = new SubscriptionPoller(fetchVersion, notify, { intervalMs: 1000 })
+
+    poller.subscribe('notion://page/1a2b-3c4d', 'v1')
+    poller.subscribe('notion://page/1a2b3c4d/markdown', 'v1')
+
+    await vi.advanceTimersByTimeAsync(1000)
+    expect(fetchVersion).toHaveBeenCalledTimes(1)
+    expect(notify).not.toHaveBeenCalled()
+
+    versions.page = 'v2'
+    await vi.advanceTimersByTimeAsync(1000)
+    expect(notify.mock.calls.map(([uri]) => uri)).toEqual(['notion://page/1a2b-3c4d', 'notion://page/1a2b3c4d/markdown'])
+
+    await vi.advanceTimersByTimeAsync(1000)
+    expect(notify).toHaveBeenCalledTimes(2)
+    poller.stop()
+  })
+
+  it('records a baseline before reporting changes of objects without a known version', async () => {
+    const fetchVersion = vi.fn().mockResolvedValueOnce('v1').mockResolvedValueOnce('v2')
+    const notify = vi.fn().mockResolvedValue(undefined)
+    const poller = new SubscriptionPoller(fetchVersion, notify, { intervalMs: 1000 })
+
+    poller.subscribe('notion://database/db-1')
+    await vi.advanceTimersByTimeAsync(1000)
+    expect(notify).not.toHaveBeenCalled()
+
+    await vi.advanceTimersByTimeAsync(1000)
+    expect(notify).toHaveBeenCalledWith('notion://database/db-1')
+    poller.stop()
+  })
+
+  it('backs off while rate limited', async () => {
+    const rateLimited = new HttpClientError('Too Many Requests', 429, {}, new Headers({ 'retry-after': '3' }))
+    const fetchVersion = vi.fn().mockRejectedValueOnce(rateLimited).mockRejectedValueOnce(rateLimited).mockResolvedValue('v1')
+    const poller = new SubscriptionPoller(fetchVersion, vi.fn(), { intervalMs: 1000, maxBackoffMs: 3500 })
+    poller.subscribe('notion://page/page-1', 'v1')
+
+    await vi.advanceTimersByTimeAsync(1000)
+    expect(fetchVersion).toHaveBeenCalledTimes(1)
+
+    // Doubled interval, but never shorter than Retry-After
+    await vi.advanceTimersByTimeAsync(2999)
+    expect(fetchVersion).toHaveBeenCalledTimes(1)
+    await vi.advanceTimersByTimeAsync(1)
+    expect(fetchVersion).toHaveBeenCalledTimes(2)
+
+    // Capped at maxBackoffMs, then back to the regular interval once a poll succeeds
+    await vi.advanceTimersByTimeAsync(3499)
+    expect(fetchVersion).toHaveBeenCalledTimes(2)
+    await vi.advanceTimersByTimeAsync(1)
+    expect(fetchVersion).toHaveBeenCalledTimes(3)
+    await vi.advanceTimersByTimeAsync(1000)
+    expect(fetchVersion).toHaveBeenCalledTimes(4)
+    poller.stop()
+  })
+
+  it('stops polling once every URI is unsubscribed', async () => {
+    const fetchVersion = vi.fn().mockResolvedValue('v1')
+    const poller = new SubscriptionPoller(fetchVersion, vi.fn(), { intervalMs: 1000 })
+
+    poller.subscribe('notion://page/page-1', 'v1')
+    poller.subscribe('notion://page/page-1/markdown', 'v1')
+    poller.unsubscribe('notion://page/page-1')
+    expect(poller.uris).toEqual(['notion://page/page-1/markdown'])
+
+    poller.unsubscribe('notion://page/page-1/markdown')
+    await vi.advanceTimersByTimeAsync(5000)
+    expect(fetchVersion).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,142 @@
+import { throwIfAborted } from '../client/abort'
+
+/** Default number of blocks per slice */
+export const DEFAULT_SLICE_SIZE = 100
+
+/** Largest accepted slice */
+export const MAX_SLICE_SIZE = 1000
+
+/** One page of a block's children, as returned by the Notion API */
+export type ChildrenPage = {
+  results: any[]
+  has_more?: boolean
+  next_cursor?: string | null
+}
+
+/** Lists one page of children of a block, starting at a Notion pagination cursor */
+export type ChildrenPageFetcher = (blockId: string, startCursor?: string) => Promise<ChildrenPage>
+
+/** Block of a flattened tree, with its nesting level (1 for the children of the root) */
+export type FlattenedBlock = Record<string, any> & { depth: number }
+
+// A block whose children are being listed, and where the listing stands
+type TraversalFrame = {
+  /** Block id */
+  id: string
+  /** Notion cursor of the listing page being read; undefined for the first page */
+  start?: string
+  /** Index of the next child in that listing page */
+  index: number
+  depth: number
+}
+
+/**
+ * Position in a depth-first traversal of a block tree. It only holds Notion ids and
+ * pagination cursors, so it can be handed to clients and resumed in any later call.
+ */
+export type TraversalPosition = {
+  root: string
+  /** Number of block levels to visit; unlimited when undefined */
+  maxDepth?: number
+  stack: TraversalFrame[]
+}
+
+export type BlockSlice = {
+  blocks: FlattenedBlock[]
+  /** Where the next slice starts, undefined once the whole tree has been visited */
+  next?: TraversalPosition
+}
+
+/**
+ * Position at the start of the traversal of a block's descendants
+ */
+export function startTraversal(root: string, maxDepth?: number): TraversalPosition {
+  return { root, maxDepth, stack: [{ id: root, index: 0, depth: 1 }] }
+}
+
+/**
+ * Read the next blocks of a tree in depth-first order, parents before their children.
+ *
+ * Only the listing pages on the path to the current position are requested, so each
+ * slice costs a few requests however large the tree is.
+ * @param position Where the slice starts; it is not modified
+ * @param maxBlocks Number of blocks in the slice
+ */
+export async function readBlockSlice(
+  position: TraversalPosition,
+  fetchChildren: ChildrenPageFetcher,
+  maxBlocks: number,
+  signal?: AbortSignal,
+): Promise<BlockSlice> {
+  const stack = position.stack.map((frame) => ({ ...frame }))
+  const pages = new Map<string, Promise<ChildrenPage>>()
+  const listing = (frame: TraversalFrame) => {
+    const key = `${frame.id}:${frame.start ?? ''}`
+    if (!pages.has(key)) pages.set(key, fetchChildren(frame.id, frame.start))
+    return pages.get(key)!
+  }
+
+  const blocks: FlattenedBlock[] = []
+  while (stack.length > 0) {
+    throwIfAborted(signal)
+    const frame = stack[stack.length - 1]
+    const page = await listing(frame)
+    const results = Array.isArray(page.results) ? page.results : []
+
+    if (frame.index >= results.length) {
+      if (page.has_more && page.next_cursor) {
+        frame.start = page.next_cursor
+        frame.index = 0
+      } else {
+        stack.pop()
+      }
+      continue
+    }
+
+    // Stop before a block that is known to exist, so that a returned position always has more to read
+    if (blocks.length >= maxBlocks) {
+      return { blocks, next: { ...position, stack } }
+    }
+
+    const block = results[frame.index]
+    frame.index++
+    blocks.push({ ...block, depth: frame.depth })
+    if (block?.has_children && (position.maxDepth === undefined || frame.depth + 1 < position.maxDepth)) {
+      stack.push({ id: block.id, index: 0, depth: frame.depth + 1 })
+    }
+  }
+  return { blocks }
+}
+
+/**
+ * Number of blocks per slice requested by a client, within bounds
+ */
+export function sliceSize(value: unknown): number {
+  const size = Number(value)
+  return Number.isFinite(size) && size > 0 ? Math.min(MAX_SLICE_SIZE, Math.floor(size)) : DEFAULT_SLICE_SIZE
+}
+
+/**
+ * Opaque cursor of a traversal position
+ */
+export function encodeTraversalCursor(position: TraversalPosition): string {
+  return Buffer.from(JSON.stringify({ traversal: position })).toString('base64url')
+}
+
+/**
+ * @returns The position encoded in the cursor, or undefined if it is not a traversal cursor
+ */
+export function decodeTraversalCursor(cursor: string): TraversalPosition | undefined {
+  try {
+    const { traversal } = JSON.parse(Buffer.from(cursor, 'base64url').toString())
+    const validFrame = (frame: any) =>
+      typeof frame?.id === 'string' && Number.isInteger(frame.index) && Number.isInteger(frame.depth) &&
+      (frame.start === undefined || typeof frame.start === 'string')
+    if (typeof traversal?.root === 'string' && Array.isArray(traversal.stack) && traversal.stack.every(validFrame)) {
+      return traversal
+    }
+  } catch {
+    // Not a traversal cursor
+  }
+  return undefined
+}
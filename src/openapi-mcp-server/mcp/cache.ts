@@ -0,0 +1,181 @@
+export type CacheConfig = {
+  /** Maximum number of entries; the least recently used entries are evicted first */
+  maxEntries?: number
+  /** Approximate maximum size of all entries in bytes, estimated from their JSON encoding */
+  maxBytes?: number
+  /** Time to live of an entry in milliseconds; 0 disables expiry */
+  ttlMs?: number
+}
+
+export type CacheStats = {
+  entries: number
+  bytes: number
+  hits: number
+  misses: number
+  /** Entries dropped because they were expired or outdated when read */
+  stale: number
+  /** Entries dropped to respect the size limits */
+  evictions: number
+}
+
+/**
+ * Storage used for each kind of cached Notion object
+ */
+export interface CacheStore<V = any> {
+  get(key: string, version?: string): V | undefined
+  has(key: string, version?: string): boolean
+  peek(key: string): V | undefined
+  set(key: string, value: V, version?: string): void
+  delete(key: string): boolean
+  clear(): void
+  keys(): string[]
+  readonly size: number
+  stats(): CacheStats
+  /** Finish writing entries to storage, for stores that write asynchronously */
+  flush?(): Promise<void>
+}
+
+type CacheEntry<V> = {
+  value: V
+  bytes: number
+  expiresAt: number
+  version?: string
+}
+
+/**
+ * Least recently used cache bounded by entry count and approximate byte size.
+ *
+ * Entries may carry a version, typically the `last_edited_time` of the page they
+ * were read from. A lookup with a different version treats the entry as stale.
+ */
+export class LRUCache<V = any> implements CacheStore<V> {
+  private readonly maxEntries: number
+  private readonly maxBytes: number
+  private readonly ttlMs: number
+  private entries: Map<string, CacheEntry<V>> = new Map()
+  private bytes = 0
+  private hits = 0
+  private misses = 0
+  private stale = 0
+  private evictions = 0
+
+  constructor(config: CacheConfig = {}) {
+    this.maxEntries = Math.max(1, config.maxEntries ?? 1000)
+    this.maxBytes = Math.max(1, config.maxBytes ?? 10 * 1024 * 1024)
+    this.ttlMs = config.ttlMs ?? 5 * 60 * 1000
+  }
+
+  /**
+   * @param key Cache key
+   * @param version When given, entries stored with another version are treated as stale
+   * @returns The cached value, or undefined if missing, expired or outdated
+   */
+  get(key: string, version?: string): V | undefined {
+    const entry = this.lookup(key, version)
+    if (!entry) {
+      this.misses++
+      return undefined
+    }
+
+    // Move to the most recently used position
+    this.entries.delete(key)
+    this.entries.set(key, entry)
+    this.hits++
+    return entry.value
+  }
+
+  /**
+   * Check for a usable entry without updating statistics or recency
+   */
+  has(key: string, version?: string): boolean {
+    return this.lookup(key, version) !== undefined
+  }
+
+  /**
+   * Read a live entry regardless of its version, without updating statistics or recency
+   */
+  peek(key: string): V | undefined {
+    return this.lookup(key)?.value
+  }
+
+  /**
+   * Store a value, evicting least recently used entries as needed.
+   * Values larger than the whole cache are not stored.
+   * @param ttlMs Overrides the configured TTL, e.g. for values read back from a persistent store
+   */
+  set(key: string, value: V, version?: string, ttlMs: number = this.ttlMs): void {
+    this.delete(key)
+
+    const bytes = estimateBytes(value)
+    if (bytes > this.maxBytes) return
+
+    this.entries.set(key, {
+      value,
+      bytes,
+      expiresAt: ttlMs > 0 ? Date.now() + ttlMs : Infinity,
+      version,
+    })
+    this.bytes += bytes
+
+    for (const oldestKey of this.entries.keys()) {
+      if (this.entries.size <= this.maxEntries && this.bytes <= this.maxBytes) break
+      this.delete(oldestKey)
+      this.evictions++
+    }
+  }
+
+  delete(key: string): boolean {
+    const entry = this.entries.get(key)
+    if (!entry) return false
+    this.entries.delete(key)
+    this.bytes -= entry.bytes
+    return true
+  }
+
+  clear(): void {
+    this.entries.clear()
+    this.bytes = 0
+  }
+
+  keys(): string[] {
+    return [...this.entries.keys()]
+  }
+
+  get size(): number {
+    return this.entries.size
+  }
+
+  stats(): CacheStats {
+    return {
+      entries: this.entries.size,
+      bytes: this.bytes,
+      hits: this.hits,
+      misses: this.misses,
+      stale: this.stale,
+      evictions: this.evictions,
+    }
+  }
+
+  // Find a live entry, dropping it if it has expired or does not match the requested version
+  private lookup(key: string, version?: string): CacheEntry<V> | undefined {
+    const entry = this.entries.get(key)
+    if (!entry) return undefined
+
+    const outdated = version !== undefined && entry.version !== undefined && entry.version !== version
+    if (entry.expiresAt <= Date.now() || outdated) {
+      this.delete(key)
+      this.stale++
+      return undefined
+    }
+    return entry
+  }
+}
+
+// Approximate in-memory size of a value from its JSON encoding
+export function estimateBytes(value: unknown): number {
+  try {
+    return Buffer.byteLength(JSON.stringify(value) ?? '')
+  } catch {
+    return 0
+  }
+}
@@ -0,0 +1,360 @@
+import { randomUUID } from 'node:crypto'
+import fs from 'node:fs'
+import path from 'node:path'
+import { CacheConfig, CacheStats, CacheStore, LRUCache } from './cache'
+
+// Age after which a temporary file is assumed to belong to a write that never completed
+const STALE_TEMP_FILE_MS = 60 * 1000
+
+// Minimum interval between two prunings of a directory by this process
+const PRUNE_INTERVAL_MS = 60 * 1000
+
+// Time during which written entries are collected before they are persisted together
+const WRITE_DELAY_MS = 100
+
+// When each directory was last pruned; shared by the stores of all sessions, which open the same directories
+const lastPrunedAt = new Map<string, number>()
+
+// Format of a cache file
+type StoredEntry<V> = {
+  key: string
+  version?: string
+  storedAt: number
+  /** null when the entry never expires */
+  expiresAt: number | null
+  value: V
+}
+
+/**
+ * Cache store persisted as a directory of JSON files, one per entry, in front of
+ * which an in-memory LRU cache keeps recently used entries.
+ *
+ * Entries are written to disk asynchronously, in batches collected for a short delay,
+ * so that caching a response never blocks the event loop on file system calls. Until
+ * then they are served from memory.
+ *
+ * Several server processes may share the directory: entries are written to a
+ * temporary file and renamed into place, so readers only ever see complete files,
+ * and the last writer of an entry wins. Files that cannot be parsed are treated as
+ * missing and removed.
+ *
+ * The directory is pruned of expired entries, and down to the entry and size limits,
+ * after batches of entries are written rather than when a store is opened, so opening
+ * one is cheap.
+ */
+export class FileCacheStore<V = any> implements CacheStore<V> {
+  private readonly memory: LRUCache<V>
+  private readonly maxEntries: number
+  private readonly maxBytes: number
+  private readonly ttlMs: number
+  private hits = 0
+  private misses = 0
+  private stale = 0
+  private evictions = 0
+  private writesSincePrune = 0
+  /** Entries waiting to be written, by key */
+  private pending: Map<string, StoredEntry<V>> = new Map()
+  /** Keys whose file is being written, and those of them deleted in the meantime */
+  private writing: Set<string> = new Set()
+  private deletedWhileWriting: Set<string> = new Set()
+  private flushTimer?: NodeJS.Timeout
+  private flushing: Promise<void> = Promise.resolve()
+
+  /**
+   * @param directory Directory holding the entries; created if missing
+   * @param config Limits, applied to both the in-memory layer and the directory
+   */
+  constructor(
+    private readonly directory: string,
+    config: CacheConfig = {},
+  ) {
+    this.memory = new LRUCache<V>(config)
+    this.maxEntries = Math.max(1, config.maxEntries ?? 1000)
+    this.maxBytes = Math.max(1, config.maxBytes ?? 10 * 1024 * 1024)
+    this.ttlMs = config.ttlMs ?? 5 * 60 * 1000
+    fs.mkdirSync(directory, { recursive: true })
+  }
+
+  get(key: string, version?: string): V | undefined {
+    const value = this.load(key, version)
+    if (value === undefined) {
+      this.misses++
+    } else {
+      this.hits++
+    }
+    return value
+  }
+
+  has(key: string, version?: string): boolean {
+    return this.load(key, version) !== undefined
+  }
+
+  peek(key: string): V | undefined {
+    return this.load(key)
+  }
+
+  set(key: string, value: V, version?: string): void {
+    const now = Date.now()
+    const entry: StoredEntry<V> = {
+      key,
+      version,
+      storedAt: now,
+      expiresAt: this.ttlMs > 0 ? now + this.ttlMs : null,
+      value,
+    }
+    this.memory.set(key, value, version)
+    this.pending.set(key, entry)
+
+    this.flushTimer ??= setTimeout(() => {
+      this.flush()
+    }, WRITE_DELAY_MS)
+  }
+
+  delete(key: string): boolean {
+    const deletedFromMemory = this.memory.delete(key)
+    const deletedFromQueue = this.pending.delete(key)
+    if (this.writing.has(key)) {
+      this.deletedWhileWriting.add(key)
+    }
+    return removeFile(this.filePath(key)) || deletedFromMemory || deletedFromQueue
+  }
+
+  clear(): void {
+    this.memory.clear()
+    this.pending.clear()
+    this.writing.forEach((key) => this.deletedWhileWriting.add(key))
+    for (const file of this.listFiles()) {
+      removeFile(path.join(this.directory, file))
+    }
+  }
+
+  /**
+   * Keys from the least to the most recently used: entries only on disk, by the time they
+   * were written, then those held in memory, in their order of use
+   */
+  keys(): string[] {
+    const stored = this.storedKeys()
+    const inMemory = this.memory.keys().filter((key) => stored.has(key))
+    const used = new Set(inMemory)
+    const writtenAt = (key: string) => {
+      const pending = this.pending.get(key)
+      if (pending) return pending.storedAt
+      try {
+        return fs.statSync(this.filePath(key)).mtimeMs
+      } catch {
+        return 0
+      }
+    }
+    const onlyStored = [...stored]
+      .filter((key) => !used.has(key))
+      .map((key) => ({ key, writtenAt: writtenAt(key) }))
+      .sort((a, b) => a.writtenAt - b.writtenAt)
+    return [...onlyStored.map(({ key }) => key), ...inMemory]
+  }
+
+  get size(): number {
+    return this.storedKeys().size
+  }
+
+  stats(): CacheStats {
+    const keys = this.storedKeys()
+    const bytes = [...keys].reduce((total, key) => {
+      const pending = this.pending.get(key)
+      if (pending) return total + Buffer.byteLength(JSON.stringify(pending))
+      try {
+        return total + fs.statSync(this.filePath(key)).size
+      } catch {
+        return total
+      }
+    }, 0)
+
+    return {
+      entries: keys.size,
+      bytes,
+      hits: this.hits,
+      misses: this.misses,
+      stale: this.stale,
+      evictions: this.evictions,
+    }
+  }
+
+  /**
+   * Write the entries set so far to disk, then prune the directory if it is due
+   * @returns Once the entries are written; failures are ignored, since the store is only a cache
+   */
+  flush(): Promise<void> {
+    clearTimeout(this.flushTimer)
+    this.flushTimer = undefined
+    this.flushing = this.flushing.then(() => this.writePending())
+    return this.flushing
+  }
+
+  // Look an entry up in memory, then in the write queue and on disk; entries found there are kept in memory
+  private load(key: string, version?: string): V | undefined {
+    if (this.memory.has(key, version)) {
+      return this.memory.get(key, version)
+    }
+
+    const entry = this.pending.get(key) ?? this.read(key)
+    if (!entry) return undefined
+
+    const outdated = version !== undefined && entry.version !== undefined && entry.version !== version
+    if (entry.key !== key || isExpired(entry.expiresAt, Date.now()) || outdated) {
+      this.pending.delete(key)
+      removeFile(this.filePath(key))
+      this.stale++
+      return undefined
+    }
+
+    this.memory.set(key, entry.value, entry.version, entry.expiresAt === null ? 0 : entry.expiresAt - Date.now())
+    return entry.value
+  }
+
+  // Read an entry from disk, removing it if it is unreadable
+  private read(key: string): StoredEntry<V> | undefined {
+    const file = this.filePath(key)
+    try {
+      return JSON.parse(fs.readFileSync(file, 'utf8'))
+    } catch (error: any) {
+      if (error?.code !== 'ENOENT') {
+        removeFile(file)
+      }
+      return undefined
+    }
+  }
+
+  private async writePending(): Promise<void> {
+    const entries = [...this.pending.values()]
+    this.pending.clear()
+
+    for (const entry of entries) {
+      const file = this.filePath(entry.key)
+      this.writing.add(entry.key)
+      try {
+        await writeFileAtomic(file, JSON.stringify(entry))
+      } catch {
+        // The store is only a cache: failing to persist an entry must not fail the request
+      }
+      this.writing.delete(entry.key)
+      // The entry was deleted while it was being written, which the deletion could not see
+      if (this.deletedWhileWriting.delete(entry.key)) {
+        await removeFileAsync(file)
+      }
+    }
+
+    // Pruning reads every entry, so it only runs once in a while
+    this.writesSincePrune += entries.length
+    const pruneDue = Date.now() - (lastPrunedAt.get(this.directory) ?? -Infinity) >= PRUNE_INTERVAL_MS
+    if (entries.length > 0 && (pruneDue || this.writesSincePrune >= Math.max(100, this.maxEntries / 10))) {
+      await this.prune()
+    }
+  }
+
+  // Remove expired entries, then the oldest ones beyond the entry and size limits,
+  // as well as temporary files left behind by interrupted writes
+  private async prune(): Promise<void> {
+    const now = Date.now()
+    const live: { file: string; storedAt: number; bytes: number }[] = []
+    this.writesSincePrune = 0
+    lastPrunedAt.set(this.directory, now)
+
+    for (const file of await this.listFilesAsync('.tmp')) {
+      const filePath = path.join(this.directory, file)
+      try {
+        if (now - (await fs.promises.stat(filePath)).mtimeMs > STALE_TEMP_FILE_MS) {
+          await removeFileAsync(filePath)
+        }
+      } catch {
+        // Already renamed or removed by its writer
+      }
+    }
+
+    for (const file of await this.listFilesAsync()) {
+      const filePath = path.join(this.directory, file)
+      try {
+        const contents = await fs.promises.readFile(filePath)
+        const { expiresAt, storedAt } = JSON.parse(contents.toString('utf8'))
+        if (!isExpired(expiresAt, now)) {
+          live.push({ file, storedAt: storedAt ?? 0, bytes: contents.length })
+          continue
+        }
+      } catch (error: any) {
+        // Already removed by another process; other unreadable entries are removed below
+        if (error?.code === 'ENOENT') continue
+      }
+      await removeFileAsync(filePath)
+    }
+
+    live.sort((a, b) => a.storedAt - b.storedAt)
+    let entries = live.length
+    let bytes = live.reduce((total, entry) => total + entry.bytes, 0)
+    for (const entry of live) {
+      if (entries <= this.maxEntries && bytes <= this.maxBytes) break
+      await removeFileAsync(path.join(this.directory, entry.file))
+      entries--
+      bytes -= entry.bytes
+      this.evictions++
+    }
+  }
+
+  // Keys of the entries on disk or waiting to be written
+  private storedKeys(): Set<string> {
+    const keys = new Set(this.listFiles().map((file) => decodeURIComponent(file.slice(0, -'.json'.length))))
+    this.pending.forEach((_entry, key) => keys.add(key))
+    return keys
+  }
+
+  private listFiles(extension = '.json'): string[] {
+    try {
+      return fs.readdirSync(this.directory).filter((file) => file.endsWith(extension))
+    } catch {
+      return []
+    }
+  }
+
+  private async listFilesAsync(extension = '.json'): Promise<string[]> {
+    try {
+      return (await fs.promises.readdir(this.directory)).filter((file) => file.endsWith(extension))
+    } catch {
+      return []
+    }
+  }
+
+  private filePath(key: string): string {
+    return path.join(this.directory, `${encodeURIComponent(key)}.json`)
+  }
+}
+
+function isExpired(expiresAt: number | null | undefined, now: number): boolean {
+  return expiresAt !== null && (typeof expiresAt !== 'number' || expiresAt <= now)
+}
+
+// Write through a uniquely named temporary file so that concurrent readers never see a partial entry
+async function writeFileAtomic(file: string, contents: string): Promise<void> {
+  const tmp = `${file}.${process.pid}.${randomUUID()}.tmp`
+  try {
+    await fs.promises.writeFile(tmp, contents)
+    await fs.promises.rename(tmp, file)
+  } catch (error) {
+    await removeFileAsync(tmp)
+    throw error
+  }
+}
+
+// Remove a file, ignoring files that are already gone (e.g. removed by another process)
+function removeFile(file: string): boolean {
+  try {
+    fs.unlinkSync(file)
+    return true
+  } catch {
+    return false
+  }
+}
+
+async function removeFileAsync(file: string): Promise<void> {
+  try {
+    await fs.promises.unlink(file)
+  } catch {
+    // Already removed
+  }
+}
@@ -0,0 +1,194 @@
+import { randomUUID } from 'node:crypto'
+
+export type JobStatus = 'queued' | 'running' | 'done' | 'failed' | 'cancelled'
+
+export type JobProgress = {
+  /** Number of blocks found in block listings so far */
+  blocksDiscovered: number
+  /** Number of discovered blocks whose content, including children, has been retrieved */
+  blocksFetched: number
+  /** Number of Notion API requests sent so far */
+  requestsMade: number
+}
+
+export type Job<T = unknown> = {
+  id: string
+  /** Tool that started the job, e.g. API-get-one-pager */
+  kind: string
+  /** Parameters the job was started with, used to look jobs up by page */
+  params: Record<string, unknown>
+  status: JobStatus
+  progress: JobProgress
+  createdAt: number
+  startedAt?: number
+  finishedAt?: number
+  result?: T
+  error?: string
+  /** Aborted when the job is cancelled; long-running work should check it between requests */
+  signal: AbortSignal
+}
+
+export type JobManagerConfig = {
+  /** How long finished jobs are kept before being evicted, in milliseconds (default: 1 hour) */
+  ttlMs?: number
+  /** Maximum number of jobs running at once; further jobs stay queued (default: 2) */
+  maxConcurrentJobs?: number
+}
+
+type JobEntry = {
+  job: Job<any>
+  controller: AbortController
+  run: (job: Job<any>) => Promise<any>
+}
+
+/**
+ * Error thrown by work that notices its job was cancelled
+ */
+export class JobCancelledError extends Error {
+  constructor(public jobId?: string) {
+    super(jobId ? `Job ${jobId} was cancelled` : 'Job was cancelled')
+    this.name = 'JobCancelledError'
+  }
+}
+
+/**
+ * Runs background work as jobs that can be polled, cancelled and eventually evicted.
+ *
+ * Finished jobs are evicted lazily once their TTL has passed, whenever the
+ * manager is used, so no timer keeps the process alive.
+ */
+export class JobManager {
+  private readonly ttlMs: number
+  private readonly maxConcurrentJobs: number
+  private jobs: Map<string, JobEntry> = new Map()
+  private queue: JobEntry[] = []
+  private running = 0
+
+  constructor(config: JobManagerConfig = {}) {
+    this.ttlMs = config.ttlMs ?? 60 * 60 * 1000
+    this.maxConcurrentJobs = Math.max(1, config.maxConcurrentJobs ?? 2)
+  }
+
+  /**
+   * Queue a job; it starts as soon as a slot is free
+   * @param kind Name of the tool or task that started the job
+   * @param params Parameters the job was started with
+   * @param run Work to perform; its resolved value becomes the job result
+   * @returns The queued job
+   */
+  start<T>(kind: string, params: Record<string, unknown>, run: (job: Job<T>) => Promise<T>): Job<T> {
+    this.evictExpired()
+
+    const controller = new AbortController()
+    const job: Job<T> = {
+      id: randomUUID(),
+      kind,
+      params,
+      status: 'queued',
+      progress: { blocksDiscovered: 0, blocksFetched: 0, requestsMade: 0 },
+      createdAt: Date.now(),
+      signal: controller.signal,
+    }
+    const entry: JobEntry = { job, controller, run }
+    this.jobs.set(job.id, entry)
+    this.queue.push(entry)
+
+    // Start on a later tick so that the caller can return the job before any work happens
+    setTimeout(() => this.drain(), 0)
+    return job
+  }
+
+  /**
+   * @returns The job with the given id, or undefined if it does not exist or was evicted
+   */
+  get(id: string): Job | undefined {
+    this.evictExpired()
+    return this.jobs.get(id)?.job
+  }
+
+  /**
+   * Find the most recently created job matching a predicate
+   */
+  findLatest(predicate: (job: Job) => boolean): Job | undefined {
+    this.evictExpired()
+    let latest: Job | undefined
+    for (const { job } of this.jobs.values()) {
+      if (predicate(job) && (!latest || job.createdAt >= latest.createdAt)) {
+        latest = job
+      }
+    }
+    return latest
+  }
+
+  /**
+   * Cancel a queued or running job. Finished jobs are left unchanged.
+   * @returns The job, or undefined if it does not exist
+   */
+  cancel(id: string): Job | undefined {
+    const entry = this.jobs.get(id)
+    if (!entry) return undefined
+
+    const { job } = entry
+    if (job.status === 'queued' || job.status === 'running') {
+      if (job.status === 'queued') {
+        this.queue = this.queue.filter((queued) => queued !== entry)
+      }
+      job.status = 'cancelled'
+      job.finishedAt = Date.now()
+      entry.controller.abort(new JobCancelledError(job.id))
+    }
+    return job
+  }
+
+  /**
+   * Cancel every queued or running job, e.g. when the session that started them ends
+   */
+  cancelAll(): void {
+    for (const id of this.jobs.keys()) {
+      this.cancel(id)
+    }
+  }
+
+  private drain(): void {
+    while (this.running < this.maxConcurrentJobs && this.queue.length > 0) {
+      this.execute(this.queue.shift()!)
+    }
+  }
+
+  private execute(entry: JobEntry): void {
+    const { job } = entry
+    job.status = 'running'
+    job.startedAt = Date.now()
+    this.running++
+
+    entry
+      .run(job)
+      .then(
+        (result) => {
+          // A cancelled job keeps its status even if the work completed afterwards
+          if (job.status !== 'running') return
+          job.status = 'done'
+          job.result = result
+        },
+        (error) => {
+          if (job.status !== 'running') return
+          job.status = 'failed'
+          job.error = error instanceof Error ? error.message : String(error)
+        },
+      )
+      .finally(() => {
+        job.finishedAt ??= Date.now()
+        this.running--
+        this.drain()
+      })
+  }
+
+  private evictExpired(): void {
+    const now = Date.now()
+    for (const [id, { job }] of this.jobs) {
+      if (job.finishedAt !== undefined && now - job.finishedAt > this.ttlMs) {
+        this.jobs.delete(id)
+      }
+    }
+  }
+}
@@ -0,0 +1,138 @@
+import type { Server } from '@modelcontextprotocol/sdk/server/index.js'
+import type { LoggingLevel } from '@modelcontextprotocol/sdk/types.js'
+import { redactSecrets } from './secrets'
+
+/** MCP logging levels, from least to most severe */
+export const LOG_LEVELS: readonly LoggingLevel[] = ['debug', 'info', 'notice', 'warning', 'error', 'critical', 'alert', 'emergency']
+
+/** Level used when neither the configuration nor the client chose one */
+export const DEFAULT_LOG_LEVEL: LoggingLevel = 'warning'
+
+/**
+ * Checks whether a string is a valid MCP logging level
+ */
+export function isLoggingLevel(value: unknown): value is LoggingLevel {
+  return typeof value === 'string' && (LOG_LEVELS as readonly string[]).includes(value)
+}
+
+/**
+ * Diagnostics logger that never writes to stdout.
+ *
+ * Once a client has initialized the MCP session, messages are sent as
+ * `notifications/message`; before that (or if sending fails) they go to stderr,
+ * since stdout carries the JSON-RPC stream of the stdio transport. Credentials
+ * are removed from every message.
+ */
+export class Logger {
+  private server: Server | null = null
+  private secrets: Set<string> = new Set()
+
+  constructor(
+    private name: string,
+    private level: LoggingLevel = DEFAULT_LOG_LEVEL,
+  ) {}
+
+  /**
+   * Start forwarding messages to the client connected to the given server
+   */
+  attach(server: Server): void {
+    this.server = server
+  }
+
+  /**
+   * Stop forwarding messages to the client, e.g. after the transport closed
+   */
+  detach(): void {
+    this.server = null
+  }
+
+  /**
+   * Redact the given values, e.g. the session's Notion token, in addition to recognizable tokens
+   */
+  addSecret(secret: string): void {
+    if (secret) {
+      this.secrets.add(secret)
+    }
+  }
+
+  setLevel(level: LoggingLevel): void {
+    this.level = level
+  }
+
+  getLevel(): LoggingLevel {
+    return this.level
+  }
+
+  isEnabled(level: LoggingLevel): boolean {
+    return LOG_LEVELS.indexOf(level) >= LOG_LEVELS.indexOf(this.level)
+  }
+
+  debug(message: string, ...args: unknown[]): void {
+    this.log('debug', message, args)
+  }
+
+  info(message: string, ...args: unknown[]): void {
+    this.log('info', message, args)
+  }
+
+  warning(message: string, ...args: unknown[]): void {
+    this.log('warning', message, args)
+  }
+
+  error(message: string, ...args: unknown[]): void {
+    this.log('error', message, args)
+  }
+
+  private log(level: LoggingLevel, message: string, args: unknown[]): void {
+    if (!this.isEnabled(level)) return
+
+    if (this.server) {
+      this.server
+        .sendLoggingMessage({ level, logger: this.name, data: redactSecrets(formatLogMessage(message, args), this.secrets) })
+        .catch(() => this.writeToStderr(level, message, args))
+      return
+    }
+
+    this.writeToStderr(level, message, args)
+  }
+
+  private writeToStderr(level: LoggingLevel, message: string, args: unknown[]): void {
+    // Errors keep their (redacted) stack; other objects may carry request headers, so they are flattened
+    const redactedArgs = args.map((arg) => {
+      if (typeof arg === 'number' || typeof arg === 'boolean') return arg
+      if (arg instanceof Error) return redactError(arg, this.secrets)
+      return redactSecrets(formatLogArgument(arg), this.secrets)
+    })
+    const redactedMessage = redactSecrets(message, this.secrets)
+
+    // Both console.warn and console.error write to stderr
+    if (level === 'warning') {
+      console.warn(redactedMessage, ...redactedArgs)
+    } else {
+      console.error(redactedMessage, ...redactedArgs)
+    }
+  }
+}
+
+// Copy of an error without the credentials its message and stack may contain
+function redactError(error: Error, secrets: Iterable<string>): Error {
+  const redacted = new Error(redactSecrets(error.message, secrets))
+  redacted.name = error.name
+  redacted.stack = error.stack === undefined ? undefined : redactSecrets(error.stack, secrets)
+  return redacted
+}
+
+// Flatten a message and its arguments into a single line for log notifications
+function formatLogMessage(message: string, args: unknown[]): string {
+  return [message, ...args.map(formatLogArgument)].join(' ')
+}
+
+function formatLogArgument(arg: unknown): string {
+  if (arg instanceof Error) return arg.message
+  if (typeof arg === 'string') return arg
+  try {
+    return JSON.stringify(arg)
+  } catch {
+    return String(arg)
+  }
+}
@@ -0,0 +1,486 @@
+/**
+ * Renders enriched One Pager output (page + nested blocks) into Markdown.
+ *
+ * The input is the structure produced by MCPProxy.retrievePageRecursively:
+ * a Notion page object with `content` holding blocks, where nested blocks
+ * live under `children` and linked databases / child pages carry the
+ * `database` / `page_info` enrichments.
+ */
+
+type RichText = {
+  type?: string
+  plain_text?: string
+  href?: string | null
+  text?: { content?: string; link?: { url?: string } | null }
+  equation?: { expression?: string }
+  annotations?: {
+    bold?: boolean
+    italic?: boolean
+    strikethrough?: boolean
+    underline?: boolean
+    code?: boolean
+    color?: string
+  }
+}
+
+// Block types rendered as list items, which are joined without blank lines
+const LIST_ITEM_TYPES = ['bulleted_list_item', 'numbered_list_item', 'to_do', 'toggle']
+
+/**
+ * Join rich text segments into plain text, ignoring annotations
+ * @param richText Array of Notion rich text objects
+ * @returns Concatenated plain text
+ */
+export function richTextToPlainText(richText: RichText[] | undefined): string {
+  if (!Array.isArray(richText)) return ''
+  return richText.map((segment) => segment.plain_text ?? segment.text?.content ?? '').join('')
+}
+
+/**
+ * Render rich text segments into Markdown, mapping annotations to emphasis and links
+ * @param richText Array of Notion rich text objects
+ * @returns Markdown inline text
+ */
+export function richTextToMarkdown(richText: RichText[] | undefined): string {
+  if (!Array.isArray(richText)) return ''
+  return richText.map(renderRichTextSegment).join('')
+}
+
+/**
+ * Group comments into discussion threads, in order of each thread's first comment
+ * @param comments Notion comment objects
+ * @returns One entry per discussion_id, with its comments in their original order
+ */
+export function groupCommentThreads(comments: any[]): Array<{ discussion_id: string; comments: any[] }> {
+  const threads = new Map<string, any[]>()
+  for (const comment of comments) {
+    // Comments without a discussion are threads of their own
+    const discussionId = comment?.discussion_id ?? comment?.id ?? ''
+    threads.set(discussionId, [...(threads.get(discussionId) ?? []), comment])
+  }
+  return [...threads].map(([discussionId, threadComments]) => ({ discussion_id: discussionId, comments: threadComments }))
+}
+
+/**
+ * Extract the title of a page or database object as plain text
+ * @param object Notion page or database object
+ * @returns The title, or an empty string if none is found
+ */
+export function getNotionObjectTitle(object: any): string {
+  if (!object || typeof object !== 'object') return ''
+
+  // Databases keep their title at the top level
+  if (Array.isArray(object.title)) {
+    return richTextToPlainText(object.title)
+  }
+
+  // Pages keep their title in the property of type "title"
+  for (const property of Object.values<any>(object.properties || {})) {
+    if (property?.type === 'title') {
+      return richTextToPlainText(property.title)
+    }
+  }
+
+  return ''
+}
+
+/**
+ * Render an enriched One Pager page into Markdown
+ * @param page Page data returned by the recursive page retrieval
+ * @param reductions Parts of the page left out to fit an output budget, listed in a note below the title
+ * @returns Markdown document
+ */
+export function renderPageToMarkdown(page: any, reductions: string[] = []): string {
+  const sections: string[] = []
+
+  const title = getNotionObjectTitle(page)
+  if (title) {
+    const icon = page.icon?.type === 'emoji' ? `${page.icon.emoji} ` : ''
+    sections.push(`# ${icon}${escapeMarkdown(title)}`)
+  }
+
+  if (reductions.length > 0) {
+    sections.push(`_Left out to fit the output budget: ${reductions.join(', ')}_`)
+  }
+
+  const properties = renderProperties(page.detailed_properties ?? page.properties)
+  if (properties) {
+    sections.push(properties)
+  }
+
+  const content = Array.isArray(page.content) ? renderBlocks(page.content) : ''
+  if (content) {
+    sections.push(content)
+  }
+
+  const comments = renderComments([...(page.comments?.results ?? []), ...collectBlockComments(page.content)])
+  if (comments) {
+    sections.push(comments)
+  }
+
+  return sections.join('\n\n') + '\n'
+}
+
+/**
+ * Render a database's schema into Markdown: its title, description and one table row per property
+ * @param database Notion database object
+ * @returns Markdown document
+ */
+export function renderDatabaseSchemaToMarkdown(database: any): string {
+  const sections: string[] = []
+
+  const title = getNotionObjectTitle(database)
+  const icon = database?.icon?.type === 'emoji' ? `${database.icon.emoji} ` : ''
+  sections.push(`# ${icon}${escapeMarkdown(title || 'Untitled database')}`)
+
+  const description = richTextToMarkdown(database?.description)
+  if (description) {
+    sections.push(description)
+  }
+
+  const properties = Object.entries<any>(database?.properties || {})
+  if (properties.length > 0) {
+    const cell = (text: string) => text.replace(/\|/g, '\\|').replace(/\n/g, ' ')
+    const rows = properties.map(
+      ([name, property]) => `| ${cell(escapeMarkdown(name))} | ${property?.type ?? ''} | ${cell(describePropertySchema(property))} |`,
+    )
+    sections.push(['| Property | Type | Details |', '| --- | --- | --- |', ...rows].join('\n'))
+  }
+
+  return sections.join('\n\n') + '\n'
+}
+
+/**
+ * Render a list of (possibly nested) blocks into Markdown
+ * @param blocks Notion block objects, optionally enriched with `children`
+ * @returns Markdown text
+ */
+export function renderBlocks(blocks: any[]): string {
+  let output = ''
+  let previousType: string | null = null
+  let listNumber = 0
+
+  for (const block of blocks) {
+    if (!block || typeof block !== 'object' || !block.type) continue
+
+    listNumber = block.type === 'numbered_list_item' && previousType === 'numbered_list_item' ? listNumber + 1 : 1
+
+    const rendered = renderBlock(block, listNumber)
+    if (rendered === null) continue
+
+    if (output) {
+      // Consecutive list items stay in the same list
+      const sameList = LIST_ITEM_TYPES.includes(block.type) && LIST_ITEM_TYPES.includes(previousType ?? '')
+      output += sameList ? '\n' : '\n\n'
+    }
+    output += rendered
+    previousType = block.type
+  }
+
+  return output
+}
+
+/**
+ * Render a slice of a flattened block tree into Markdown
+ * @param blocks Blocks in depth-first order, each with its nesting `depth`
+ * @returns Markdown text; blocks whose parent is not in the slice are indented by their depth
+ */
+export function renderFlattenedBlocks(blocks: Array<{ depth: number; [key: string]: any }>): string {
+  // Rebuild the nesting within the slice
+  const roots: any[] = []
+  const ancestors: any[] = []
+  for (const { depth, ...block } of blocks) {
+    const node = { ...block, children: [] as any[], depth }
+    while (ancestors.length > 0 && ancestors[ancestors.length - 1].depth >= depth) {
+      ancestors.pop()
+    }
+    const parent = ancestors[ancestors.length - 1]
+    if (parent && parent.depth === depth - 1) {
+      parent.children.push(node)
+    } else {
+      roots.push(node)
+    }
+    ancestors.push(node)
+  }
+
+  // Consecutive roots at the same depth are rendered together so that lists stay lists
+  const groups: Array<{ depth: number; blocks: any[] }> = []
+  for (const root of roots) {
+    const group = groups[groups.length - 1]
+    if (group && group.depth === root.depth) {
+      group.blocks.push(root)
+    } else {
+      groups.push({ depth: root.depth, blocks: [root] })
+    }
+  }
+  const minDepth = Math.min(...groups.map((group) => group.depth))
+  return groups
+    .map((group) => indent(renderBlocks(group.blocks), '  '.repeat(group.depth - minDepth)))
+    .filter(Boolean)
+    .join('\n\n')
+}
+
+// Stands for the children of a block dropped to fit an output budget
+const CHILDREN_OMITTED_NOTE = '_(child blocks omitted)_'
+
+function renderBlock(block: any, listNumber: number): string | null {
+  const value = block[block.type] ?? {}
+  const text = richTextToMarkdown(value.rich_text)
+  const children = Array.isArray(block.children) ? renderBlocks(block.children) : block.children_omitted ? CHILDREN_OMITTED_NOTE : ''
+
+  switch (block.type) {
+    case 'paragraph':
+      return joinWithChildren(text, children)
+    case 'heading_1':
+    case 'heading_2':
+    case 'heading_3': {
+      // The page title is the only level-one heading
+      const level = Number(block.type.slice(-1)) + 1
+      return joinWithChildren(`${'#'.repeat(level)} ${text}`, children)
+    }
+    case 'bulleted_list_item':
+      return listItem('- ', text, children)
+    case 'numbered_list_item':
+      return listItem(`${listNumber}. `, text, children)
+    case 'to_do':
+      return listItem(`- [${value.checked ? 'x' : ' '}] `, text, children)
+    case 'toggle':
+      return listItem('- ', text, children)
+    case 'quote':
+      return quote(joinWithChildren(text, children))
+    case 'callout': {
+      const icon = value.icon?.type === 'emoji' ? `${value.icon.emoji} ` : ''
+      return quote(joinWithChildren(`${icon}${text}`, children))
+    }
+    case 'code': {
+      const language = value.language && value.language !== 'plain text' ? value.language : ''
+      const code = richTextToPlainText(value.rich_text)
+      const fence = code.includes('```') ? '````' : '```'
+      const caption = richTextToMarkdown(value.caption)
+      return `${fence}${language}\n${code}\n${fence}` + (caption ? `\n\n${caption}` : '')
+    }
+    case 'equation':
+      return `$$\n${value.expression ?? ''}\n$$`
+    case 'divider':
+      return '---'
+    case 'table':
+      return renderTable(block)
+    case 'child_page': {
+      const url = block.page_info?.url
+      const pageTitle = escapeMarkdown(value.title || 'Untitled')
+      return url ? `📄 [${pageTitle}](${url})` : `📄 ${pageTitle}`
+    }
+    case 'child_database':
+    case 'linked_database': {
+      const database = block.database
+      const databaseTitle = escapeMarkdown(getNotionObjectTitle(database) || value.title || 'Untitled database')
+      const url = database?.url
+      return url ? `🗃️ [${databaseTitle}](${url})` : `🗃️ ${databaseTitle}`
+    }
+    case 'image': {
+      const url = fileUrl(value)
+      if (!url) return null
+      return `![${richTextToPlainText(value.caption)}](${url})`
+    }
+    case 'file':
+    case 'pdf':
+    case 'video':
+    case 'audio': {
+      const url = fileUrl(value)
+      if (!url) return null
+      return `[${richTextToPlainText(value.caption) || value.name || block.type}](${url})`
+    }
+    case 'bookmark':
+    case 'embed':
+    case 'link_preview': {
+      if (!value.url) return null
+      return `[${richTextToPlainText(value.caption) || value.url}](${value.url})`
+    }
+    case 'column_list':
+    case 'column':
+    case 'synced_block':
+      return children || null
+    case 'table_of_contents':
+    case 'breadcrumb':
+      return null
+    default:
+      // Unsupported block types still expose their text when they have any
+      return text || children ? joinWithChildren(text, children) : null
+  }
+}
+
+function renderTable(block: any): string | null {
+  const rows = (block.children || []).filter((row: any) => row?.type === 'table_row')
+  if (rows.length === 0) return null
+
+  const cellsOf = (row: any): string[] =>
+    (row.table_row?.cells || []).map((cell: RichText[]) => richTextToMarkdown(cell).replace(/\|/g, '\\|').replace(/\n/g, '<br>'))
+
+  const width = block.table?.table_width ?? Math.max(...rows.map((row: any) => cellsOf(row).length))
+  const line = (cells: string[]) => `| ${Array.from({ length: width }, (_, i) => cells[i] ?? '').join(' | ')} |`
+
+  // Markdown tables always need a header row; use an empty one if Notion has none
+  const hasHeader = block.table?.has_column_header === true
+  const header = hasHeader ? cellsOf(rows[0]) : []
+  const body = hasHeader ? rows.slice(1) : rows
+
+  return [line(header), line(Array(width).fill('---')), ...body.map((row: any) => line(cellsOf(row)))].join('\n')
+}
+
+function renderProperties(properties: Record<string, any> | undefined): string {
+  if (!properties || typeof properties !== 'object') return ''
+
+  const lines: string[] = []
+  for (const [name, property] of Object.entries(properties)) {
+    if (!property || property.type === 'title') continue
+    const value = renderPropertyValue(property)
+    if (value) {
+      lines.push(`- **${escapeMarkdown(name)}**: ${value}`)
+    }
+  }
+  return lines.join('\n')
+}
+
+function renderPropertyValue(property: any): string {
+  const value = property[property.type]
+
+  switch (property.type) {
+    case 'rich_text':
+      return richTextToMarkdown(value)
+    case 'number':
+      return value === null || value === undefined ? '' : String(value)
+    case 'select':
+    case 'status':
+      return value?.name ?? ''
+    case 'multi_select':
+      return Array.isArray(value) ? value.map((option: any) => option.name).join(', ') : ''
+    case 'date':
+      if (!value?.start) return ''
+      return value.end ? `${value.start} → ${value.end}` : value.start
+    case 'checkbox':
+      return value ? 'Yes' : 'No'
+    case 'url':
+    case 'email':
+    case 'phone_number':
+      return value ?? ''
+    case 'people':
+      return Array.isArray(value) ? value.map((person: any) => person.name ?? person.id).join(', ') : ''
+    case 'created_time':
+    case 'last_edited_time':
+      return value ?? ''
+    case 'formula':
+      return value ? String(value[value.type] ?? '') : ''
+    default:
+      return ''
+  }
+}
+
+// Configuration of a database property worth knowing when reading its values
+function describePropertySchema(property: any): string {
+  const config = property?.[property?.type]
+
+  switch (property?.type) {
+    case 'select':
+    case 'multi_select':
+    case 'status':
+      return Array.isArray(config?.options) ? config.options.map((option: any) => option.name).join(', ') : ''
+    case 'number':
+      return config?.format && config.format !== 'number' ? `Format: ${config.format}` : ''
+    case 'formula':
+      return config?.expression ? `Formula: ${config.expression}` : ''
+    case 'relation':
+      return config?.database_id ? `Related database: ${config.database_id}` : ''
+    case 'rollup':
+      return config?.rollup_property_name
+        ? `${config.function ?? 'rollup'} of ${config.rollup_property_name} via ${config.relation_property_name}`
+        : ''
+    default:
+      return ''
+  }
+}
+
+// Each discussion thread is a quote of its own, with replies in their order
+function renderComments(comments: any[]): string {
+  if (comments.length === 0) return ''
+
+  const threads = groupCommentThreads(comments).map((thread) =>
+    thread.comments.map((comment) => `> ${richTextToMarkdown(comment.rich_text)}`).join('\n>\n'),
+  )
+  return ['## Comments', ...threads].join('\n\n')
+}
+
+// Comments fetched for blocks of the tree, in reading order
+function collectBlockComments(blocks: unknown): any[] {
+  if (!Array.isArray(blocks)) return []
+  return blocks.flatMap((block) => [...(block?.comments?.results ?? []), ...collectBlockComments(block?.children)])
+}
+
+function renderRichTextSegment(segment: RichText): string {
+  if (segment.type === 'equation') {
+    return `$${segment.equation?.expression ?? segment.plain_text ?? ''}$`
+  }
+
+  const raw = segment.plain_text ?? segment.text?.content ?? ''
+  if (!raw) return ''
+
+  const annotations = segment.annotations ?? {}
+  let text = annotations.code ? codeSpan(raw) : escapeMarkdown(raw)
+
+  // Emphasis markers must hug the text, so keep surrounding whitespace outside them
+  const [, leading, core, trailing] = /^(\s*)([\s\S]*?)(\s*)$/.exec(text) as RegExpExecArray
+  text = core
+  if (text) {
+    if (annotations.bold) text = `**${text}**`
+    if (annotations.italic) text = `_${text}_`
+    if (annotations.strikethrough) text = `~~${text}~~`
+  }
+
+  const href = segment.href ?? segment.text?.link?.url
+  if (href && text) {
+    text = `[${text}](${href})`
+  }
+
+  return `${leading}${text}${trailing}`
+}
+
+function listItem(marker: string, text: string, children: string): string {
+  if (!children) return `${marker}${text}`
+  // Children are indented to line up with the item text
+  return `${marker}${text}\n${indent(children, ' '.repeat(marker.length))}`
+}
+
+function joinWithChildren(text: string, children: string): string {
+  if (!children) return text
+  return text ? `${text}\n\n${children}` : children
+}
+
+function quote(text: string): string {
+  return text
+    .split('\n')
+    .map((line) => (line ? `> ${line}` : '>'))
+    .join('\n')
+}
+
+function indent(text: string, prefix: string): string {
+  return text
+    .split('\n')
+    .map((line) => (line ? `${prefix}${line}` : line))
+    .join('\n')
+}
+
+function fileUrl(value: any): string | undefined {
+  return value?.type === 'external' ? value.external?.url : value?.file?.url
+}
+
+function escapeMarkdown(text: string): string {
+  return text.replace(/([`*_[\]])/g, '\\$1')
+}
+
+// Wrap text in a code span whose fence is longer than any run of backticks in the text
+function codeSpan(text: string): string {
+  const longestRun = Math.max(0, ...(text.match(/`+/g) ?? []).map((run) => run.length))
+  const fence = '`'.repeat(longestRun + 1)
+  // Code starting or ending with a backtick is padded so that it does not merge with the fence
+  const padding = text.startsWith('`') || text.endsWith('`') ? ' ' : ''
+  return `${fence}${padding}${text}${padding}${fence}`
+}
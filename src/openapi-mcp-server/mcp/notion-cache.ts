@@ -0,0 +1,159 @@
+import path from 'node:path'
+import { CacheConfig, CacheStats, CacheStore, LRUCache } from './cache'
+import { FileCacheStore } from './file-cache-store'
+
+/** Kinds of Notion objects cached by the proxy */
+export type CacheType = 'pages' | 'blocks' | 'blockChildren' | 'databases' | 'comments' | 'properties'
+
+export type NotionCacheConfig = Partial<Record<CacheType, CacheConfig>> & {
+  /**
+   * Re-read a page before reusing its cached content and drop cached children
+   * and properties if its `last_edited_time` changed (default: true)
+   */
+  freshnessCheck?: boolean
+  /** Directory of a persistent cache shared across restarts; in-memory only when unset */
+  path?: string
+}
+
+const MB = 1024 * 1024
+
+/** Limits per cache type; content changes more often than database schemas */
+export const DEFAULT_CACHE_CONFIG: Record<CacheType, Required<CacheConfig>> = {
+  pages: { maxEntries: 1000, maxBytes: 10 * MB, ttlMs: 5 * 60 * 1000 },
+  blocks: { maxEntries: 10000, maxBytes: 20 * MB, ttlMs: 5 * 60 * 1000 },
+  blockChildren: { maxEntries: 5000, maxBytes: 30 * MB, ttlMs: 10 * 60 * 1000 },
+  databases: { maxEntries: 500, maxBytes: 5 * MB, ttlMs: 15 * 60 * 1000 },
+  comments: { maxEntries: 5000, maxBytes: 5 * MB, ttlMs: 2 * 60 * 1000 },
+  properties: { maxEntries: 5000, maxBytes: 10 * MB, ttlMs: 5 * 60 * 1000 },
+}
+
+/**
+ * Default TTL of versioned entries in a persistent cache. They are checked against
+ * the page's current last_edited_time before use, so they can outlive a restart.
+ */
+export const PERSISTENT_VERSIONED_TTL_MS = 7 * 24 * 60 * 60 * 1000
+
+// Cache types whose entries are versioned by the enclosing page's last_edited_time
+const VERSIONED_CACHE_TYPES: readonly CacheType[] = ['blockChildren', 'properties']
+
+/**
+ * The proxy's caches, one per kind of Notion object
+ */
+export class NotionCache {
+  readonly pages: CacheStore
+  readonly blocks: CacheStore
+  /** Child block listings keyed by parent block id, versioned by the enclosing page's last_edited_time */
+  readonly blockChildren: CacheStore<any[]>
+  readonly databases: CacheStore
+  readonly comments: CacheStore
+  /** Page property items keyed by `${pageId}:${propertyId}`, versioned by the page's last_edited_time */
+  readonly properties: CacheStore
+  readonly freshnessCheck: boolean
+  /** Whether entries are also stored on disk */
+  readonly persistent: boolean
+
+  constructor(config: NotionCacheConfig = {}) {
+    const create = (type: CacheType): CacheStore => {
+      if (!config.path) {
+        return new LRUCache({ ...DEFAULT_CACHE_CONFIG[type], ...definedValues(config[type]) })
+      }
+      const defaults = VERSIONED_CACHE_TYPES.includes(type)
+        ? { ...DEFAULT_CACHE_CONFIG[type], ttlMs: PERSISTENT_VERSIONED_TTL_MS }
+        : DEFAULT_CACHE_CONFIG[type]
+      return new FileCacheStore(path.join(config.path, type), { ...defaults, ...definedValues(config[type]) })
+    }
+    this.pages = create('pages')
+    this.blocks = create('blocks')
+    this.blockChildren = create('blockChildren')
+    this.databases = create('databases')
+    this.comments = create('comments')
+    this.properties = create('properties')
+    this.freshnessCheck = config.freshnessCheck ?? true
+    this.persistent = !!config.path
+  }
+
+  /**
+   * Remove everything cached about a Notion object
+   * @param objectId Page, database or block id, with or without dashes
+   * @param subtree Also remove the object's descendants found through cached child block listings
+   * @returns Number of entries removed
+   */
+  invalidate(objectId: string, subtree = false): number {
+    // Cache keys are ids as given by clients or returned by Notion, so they may or may not contain dashes
+    const childListingKeys = new Map(this.blockChildren.keys().map((key) => [normalizeId(key), key]))
+
+    const ids = new Set<string>()
+    const pending = [normalizeId(objectId)]
+    while (pending.length > 0) {
+      const id = pending.pop()!
+      if (ids.has(id)) continue
+      ids.add(id)
+
+      const listingKey = childListingKeys.get(id)
+      if (subtree && listingKey !== undefined) {
+        for (const child of this.blockChildren.peek(listingKey) ?? []) {
+          if (child?.id) pending.push(normalizeId(child.id))
+        }
+      }
+    }
+
+    let removed = 0
+    for (const store of [this.pages, this.blocks, this.blockChildren, this.databases]) {
+      for (const key of store.keys()) {
+        if (ids.has(normalizeId(key))) removed += Number(store.delete(key))
+      }
+    }
+    for (const key of this.properties.keys()) {
+      if (ids.has(normalizeId(key.split(':')[0]))) removed += Number(this.properties.delete(key))
+    }
+    for (const key of this.comments.keys()) {
+      const parent = this.comments.peek(key)?.parent
+      const parentId = parent?.page_id ?? parent?.block_id
+      if (ids.has(normalizeId(key)) || (parentId && ids.has(normalizeId(parentId)))) {
+        removed += Number(this.comments.delete(key))
+      }
+    }
+    return removed
+  }
+
+  /**
+   * Remove every cached entry
+   */
+  clear(): void {
+    for (const store of this.stores()) {
+      store.clear()
+    }
+  }
+
+  /**
+   * Wait for entries of a persistent cache to be written to disk
+   */
+  async flush(): Promise<void> {
+    await Promise.all(this.stores().map((store) => store.flush?.()))
+  }
+
+  stats(): Record<CacheType, CacheStats> {
+    return {
+      pages: this.pages.stats(),
+      blocks: this.blocks.stats(),
+      blockChildren: this.blockChildren.stats(),
+      databases: this.databases.stats(),
+      comments: this.comments.stats(),
+      properties: this.properties.stats(),
+    }
+  }
+
+  private stores(): CacheStore[] {
+    return [this.pages, this.blocks, this.blockChildren, this.databases, this.comments, this.properties]
+  }
+}
+
+// Notion accepts ids with and without dashes; compare them without
+function normalizeId(id: string): string {
+  return id.replace(/-/g, '').toLowerCase()
+}
+
+// Drop undefined fields so that they do not override defaults when spread
+function definedValues(config: CacheConfig | undefined): CacheConfig {
+  return Object.fromEntries(Object.entries(config ?? {}).filter(([, value]) => value !== undefined))
+}
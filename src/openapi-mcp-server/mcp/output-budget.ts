@@ -0,0 +1,200 @@
+import { randomUUID } from 'node:crypto'
+import { CacheConfig, LRUCache } from './cache'
+
+/** Approximate number of characters per model token, used to turn a token budget into a character budget */
+export const CHARS_PER_TOKEN = 4
+
+/** Smallest accepted budget, so that long outputs never take thousands of follow-up calls */
+export const MIN_OUTPUT_CHARS = 1000
+
+/**
+ * Parts of a page left out of an output to make it fit its budget, applied cumulatively in this order
+ */
+export type OutputReduction = {
+  /** Rich text formatting flags (bold, italic, color...) are dropped */
+  annotations?: boolean
+  /** Comments are dropped */
+  comments?: boolean
+  /** Number of block levels kept; deeper children are replaced by `children_omitted: true` */
+  maxBlockDepth?: number
+}
+
+export type BudgetedOutput = {
+  data: any
+  text: string
+  /** Human-readable list of the reductions applied */
+  reductions: string[]
+  /** Whether the text fits the budget; if not, it has to be returned in chunks */
+  fits: boolean
+}
+
+/**
+ * Character budget requested through `maxChars` and/or `maxOutputTokens`, the smaller of both
+ * @returns undefined when no budget is set
+ */
+export function outputBudget(params: { maxChars?: unknown; maxOutputTokens?: unknown }): number | undefined {
+  const limits = [Number(params.maxChars), Number(params.maxOutputTokens) * CHARS_PER_TOKEN].filter(
+    (limit) => Number.isFinite(limit) && limit > 0,
+  )
+  return limits.length > 0 ? Math.max(MIN_OUTPUT_CHARS, Math.floor(Math.min(...limits))) : undefined
+}
+
+/**
+ * Progressively reduce a page retrieved by the one-pager until its rendering fits the budget:
+ * first rich text annotations, then comments, then the deepest block levels one at a time.
+ * @param page Page data with its `content` block tree
+ * @param render Renders reduced page data, given the reductions applied
+ * @returns The first rendering that fits, or the most reduced one
+ */
+export function fitToBudget(page: any, render: (data: any, reductions: string[]) => string, maxChars: number): BudgetedOutput {
+  let output: BudgetedOutput | undefined
+  for (const reduction of reductionSteps(page)) {
+    const data = reduceOutput(page, reduction)
+    const reductions = describeReduction(reduction)
+    const text = render(data, reductions)
+    output = { data, text, reductions, fits: text.length <= maxChars }
+    if (output.fits) break
+  }
+  return output!
+}
+
+/**
+ * Copy of a page without the parts removed by a reduction
+ */
+export function reduceOutput(page: any, reduction: OutputReduction): any {
+  return reduceValue(page, reduction, 0)
+}
+
+/**
+ * Cut the chunk of a text starting at an offset, preferably at a line break
+ * @returns The chunk and the offset of the next one, or undefined when the text is exhausted
+ */
+export function sliceChunk(text: string, offset: number, maxChars: number): { chunk: string; nextOffset?: number } {
+  let end = Math.min(text.length, offset + maxChars)
+  if (end < text.length) {
+    // Break lines are only worth it when they keep most of the chunk
+    const lineBreak = text.lastIndexOf('\n', end - 1)
+    if (lineBreak >= offset + maxChars * 0.8) {
+      end = lineBreak + 1
+    } else if (isHighSurrogate(text.charCodeAt(end - 1))) {
+      end--
+    }
+  }
+  return { chunk: text.slice(offset, end), nextOffset: end < text.length ? end : undefined }
+}
+
+/** Output kept for follow-up calls with a continuation cursor */
+export type Continuation = {
+  pageId: string
+  format: string
+  text: string
+  maxChars: number
+}
+
+/**
+ * Keeps outputs that were too large for one response, so that follow-up calls can read the rest.
+ * Cursors are opaque to clients; they reference a stored output and an offset in its text.
+ */
+export class ContinuationStore {
+  private outputs: LRUCache<Continuation>
+
+  constructor(config: CacheConfig = {}) {
+    this.outputs = new LRUCache<Continuation>({ maxEntries: 20, maxBytes: 50 * 1024 * 1024, ttlMs: 30 * 60 * 1000, ...config })
+  }
+
+  /**
+   * Store an output
+   * @returns The cursor of the output's chunk starting at the offset
+   */
+  save(continuation: Continuation, offset: number): string {
+    const id = randomUUID()
+    this.outputs.set(id, continuation)
+    return encodeCursor(id, offset)
+  }
+
+  /**
+   * Cursor of another chunk of an already stored output
+   */
+  next(cursor: string, offset: number): string | undefined {
+    const position = decodeCursor(cursor)
+    return position ? encodeCursor(position.id, offset) : undefined
+  }
+
+  /**
+   * @returns The stored output and the offset the cursor points to, or undefined if the cursor is invalid or expired
+   */
+  resolve(cursor: string): { continuation: Continuation; offset: number } | undefined {
+    const position = decodeCursor(cursor)
+    const continuation = position && this.outputs.get(position.id)
+    if (!position || !continuation || position.offset < 0 || position.offset >= continuation.text.length) {
+      return undefined
+    }
+    return { continuation, offset: position.offset }
+  }
+}
+
+// Reductions from none to the most aggressive one the page allows
+function reductionSteps(page: any): OutputReduction[] {
+  const steps: OutputReduction[] = [{}, { annotations: true }, { annotations: true, comments: true }]
+  for (let depth = blockDepth(page?.content) - 1; depth >= 1; depth--) {
+    steps.push({ annotations: true, comments: true, maxBlockDepth: depth })
+  }
+  return steps
+}
+
+function describeReduction(reduction: OutputReduction): string[] {
+  return [
+    ...(reduction.annotations ? ['annotations'] : []),
+    ...(reduction.comments ? ['comments'] : []),
+    ...(reduction.maxBlockDepth !== undefined ? [`children below depth ${reduction.maxBlockDepth}`] : []),
+  ]
+}
+
+// Number of block levels in a block list
+function blockDepth(blocks: unknown): number {
+  if (!Array.isArray(blocks) || blocks.length === 0) return 0
+  return 1 + Math.max(...blocks.map((block) => blockDepth(block?.children)))
+}
+
+// `depth` counts the block levels above the value: 0 for the page, 1 for its top-level blocks
+function reduceValue(value: any, reduction: OutputReduction, depth: number): any {
+  if (Array.isArray(value)) {
+    return value.map((item) => reduceValue(item, reduction, depth))
+  }
+  if (typeof value !== 'object' || value === null) {
+    return value
+  }
+
+  const isBlockOwner = value.object === 'page' || value.object === 'block'
+  const result: Record<string, any> = {}
+  for (const [key, child] of Object.entries(value)) {
+    // Only rich text items carry annotations; property names are free-form and left alone
+    if (reduction.annotations && key === 'annotations' && typeof value.plain_text === 'string') continue
+    if (reduction.comments && key === 'comments' && isBlockOwner) continue
+
+    const childBlocks = isBlockOwner && (key === 'content' || key === 'children') && Array.isArray(child)
+    if (childBlocks && reduction.maxBlockDepth !== undefined && depth >= reduction.maxBlockDepth) {
+      result.children_omitted = true
+      continue
+    }
+    result[key] = reduceValue(child, reduction, childBlocks ? depth + 1 : depth)
+  }
+  return result
+}
+
+function isHighSurrogate(code: number): boolean {
+  return code >= 0xd800 && code <= 0xdbff
+}
+
+function encodeCursor(id: string, offset: number): string {
+  return Buffer.from(JSON.stringify({ id, offset })).toString('base64url')
+}
+
+function decodeCursor(cursor: string): { id: string; offset: number } | undefined {
+  try {
+    const { id, offset } = JSON.parse(Buffer.from(cursor, 'base64url').toString())
+    return typeof id === 'string' && Number.isInteger(offset) ? { id, offset } : undefined
+  } catch {
+    return undefined
+  }
+}
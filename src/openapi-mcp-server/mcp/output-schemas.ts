@@ -0,0 +1,165 @@
+import { Tool } from '@modelcontextprotocol/sdk/types.js'
+import { JSONSchema7 as IJsonSchema, JSONSchema7Definition as IJsonSchemaDefinition } from 'json-schema'
+
+/** Tool output schemas must describe an object, since structured results are JSON objects */
+export type OutputSchema = NonNullable<Tool['outputSchema']>
+
+const JOB_PROGRESS_SCHEMA: IJsonSchema = {
+  type: 'object',
+  properties: {
+    blocksDiscovered: { type: 'integer' },
+    blocksFetched: { type: 'integer' },
+    requestsMade: { type: 'integer' },
+  },
+}
+
+const EXPLORATION_META_SCHEMA: IJsonSchema = {
+  type: 'object',
+  description: 'How and when the content was retrieved',
+  properties: {
+    processingTimeMs: { type: 'integer' },
+    retrievedAt: { type: 'string', format: 'date-time' },
+    processedInBackground: { type: 'boolean' },
+    job_id: { type: 'string' },
+    options: { type: 'object' },
+    budget: {
+      type: 'object',
+      description: 'Output budget and what was left out to fit it',
+      properties: {
+        maxChars: { type: 'integer' },
+        reductions: { type: 'array', items: { type: 'string' } },
+      },
+    },
+  },
+}
+
+// Fields shared by job descriptions and failures
+const STATUS_PROPERTIES: Record<string, IJsonSchema> = {
+  status: {
+    type: 'string',
+    description: 'Job status (queued, running, done, failed, cancelled), not_found, or error',
+  },
+  job_id: { type: 'string' },
+  page_id: { type: 'string' },
+  message: { type: 'string' },
+  code: { type: 'integer', description: 'HTTP-like status code of a failure' },
+}
+
+// Page content as retrieved by API-get-one-pager, either as Notion JSON, rendered Markdown or a chunk of either
+const PAGE_CONTENT_PROPERTIES: Record<string, IJsonSchema> = {
+  object: { type: 'string', const: 'page' },
+  id: { type: 'string' },
+  properties: { type: 'object', description: 'Page properties, as returned by the Notion API' },
+  detailed_properties: { type: 'object', description: 'Property values, including those Notion returns paginated' },
+  content: {
+    type: 'array',
+    items: { type: 'object' },
+    description: 'Child blocks, with their own children nested, or a slice of the flattened block tree in chunked mode',
+  },
+  comments: { type: 'object' },
+  error: { type: 'string', description: 'Why the page could not be retrieved completely' },
+  markdown: { type: 'string', description: 'Page content rendered as Markdown, when format is markdown' },
+  _meta: EXPLORATION_META_SCHEMA,
+  chunk: { type: 'string', description: 'Part of an output too large for its budget' },
+  format: { type: 'string', enum: ['json', 'markdown'], description: 'Format of the chunked output' },
+  truncated: { type: 'boolean', description: 'Whether only a chunk of the output is returned' },
+  offset: { type: 'integer', description: 'Position of the chunk in the output, in characters' },
+  totalChars: { type: 'integer', description: 'Length of the whole output, in characters' },
+  has_more: { type: 'boolean', description: 'Whether more slices follow, in chunked mode' },
+  continuationCursor: { type: 'string', description: 'Cursor to pass to API-get-one-pager to get the next chunk or slice' },
+}
+
+/**
+ * Output of API-get-one-pager: the page content when processed in the foreground,
+ * the background job otherwise, or an error
+ */
+export const ONE_PAGER_OUTPUT_SCHEMA: OutputSchema = {
+  type: 'object',
+  properties: {
+    ...PAGE_CONTENT_PROPERTIES,
+    ...STATUS_PROPERTIES,
+    request_time: { type: 'string', format: 'date-time' },
+    options: { type: 'object', description: 'Exploration options of the background job' },
+  },
+}
+
+/**
+ * Output of API-get-background-result: the job's result once it is done, its status and progress before that
+ */
+export const BACKGROUND_RESULT_OUTPUT_SCHEMA: OutputSchema = {
+  type: 'object',
+  properties: {
+    ...PAGE_CONTENT_PROPERTIES,
+    ...STATUS_PROPERTIES,
+    progress: JOB_PROGRESS_SCHEMA,
+    created_at: { type: 'string', format: 'date-time' },
+    started_at: { type: 'string', format: 'date-time' },
+    finished_at: { type: 'string', format: 'date-time' },
+    pages: {
+      type: 'array',
+      description: 'Outcome per page of a finished API-warm-cache job',
+      items: {
+        type: 'object',
+        properties: { page_id: { type: 'string' }, status: { type: 'string' }, message: { type: 'string' } },
+      },
+    },
+  },
+}
+
+/**
+ * Output schema of an API operation, derived from the converter's return schema.
+ * Every property is made optional, since the fields and exclude parameters may drop any of them.
+ * @returns The schema if the operation returns a JSON object, undefined otherwise
+ */
+export function toOutputSchema(returnSchema?: IJsonSchema): OutputSchema | undefined {
+  if (!returnSchema) return undefined
+  if (returnSchema.type === 'object') {
+    return withOptionalProperties(returnSchema) as OutputSchema
+  }
+
+  // Component schemas are referenced rather than inlined; the root must still be known to be an object
+  const refName = returnSchema.$ref?.match(/^#\/\$defs\/(.+)$/)?.[1]
+  const definition = refName ? returnSchema.$defs?.[refName] : undefined
+  if (typeof definition === 'object' && definition.type === 'object') {
+    return { ...(withOptionalProperties(returnSchema) as IJsonSchema), type: 'object' } as OutputSchema
+  }
+  return undefined
+}
+
+// Keywords holding a single subschema, a list of subschemas, or subschemas keyed by name
+const SUBSCHEMA_KEYWORDS = ['items', 'additionalProperties', 'not'] as const
+const SUBSCHEMA_LIST_KEYWORDS = ['allOf', 'anyOf', 'oneOf'] as const
+const SUBSCHEMA_MAP_KEYWORDS = ['properties', 'patternProperties', '$defs', 'definitions'] as const
+
+// Drop `required` from a schema and all of its subschemas
+function withOptionalProperties(schema: IJsonSchemaDefinition): IJsonSchemaDefinition {
+  if (typeof schema !== 'object') return schema
+
+  const { required: _required, ...result } = schema
+  for (const keyword of SUBSCHEMA_KEYWORDS) {
+    const subschema = result[keyword]
+    if (subschema !== undefined) {
+      result[keyword] = (Array.isArray(subschema) ? subschema.map(withOptionalProperties) : withOptionalProperties(subschema)) as any
+    }
+  }
+  for (const keyword of SUBSCHEMA_LIST_KEYWORDS) {
+    const subschemas = result[keyword]
+    if (subschemas !== undefined) {
+      result[keyword] = subschemas.map(withOptionalProperties)
+    }
+  }
+  for (const keyword of SUBSCHEMA_MAP_KEYWORDS) {
+    const subschemas = result[keyword]
+    if (subschemas !== undefined) {
+      result[keyword] = Object.fromEntries(Object.entries(subschemas).map(([name, subschema]) => [name, withOptionalProperties(subschema)]))
+    }
+  }
+  return result
+}
+
+/**
+ * Whether a value can be returned as structured content
+ */
+export function isStructuredContent(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
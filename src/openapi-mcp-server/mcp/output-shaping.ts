@@ -0,0 +1,174 @@
+import { JSONSchema7 as IJsonSchema } from 'json-schema'
+import { richTextToMarkdown, richTextToPlainText } from './markdown'
+
+/**
+ * How a tool result is reduced before it is returned
+ */
+export type ShapingOptions = {
+  /** Dotted paths to keep, e.g. `properties.Status`; everything else is dropped */
+  fields?: string[]
+  /** Dotted paths to drop */
+  exclude?: string[]
+  /** Strip boilerplate and default values, and collapse rich text to strings */
+  compact?: boolean
+}
+
+/** Parameters accepted by every tool to shape its result; they are never forwarded to the Notion API */
+export const SHAPING_PARAMETERS: Record<string, IJsonSchema> = {
+  fields: {
+    type: 'array',
+    items: { type: 'string' },
+    description: 'Dotted paths of the fields to keep, e.g. ["id", "properties.Status"]. ' +
+      'Arrays are traversed, and for lists the paths apply to each item of results',
+  },
+  exclude: {
+    type: 'array',
+    items: { type: 'string' },
+    description: 'Dotted paths of the fields to drop, with the same rules as fields',
+  },
+  compact: {
+    type: 'boolean',
+    description: 'Strip boilerplate (request_id, created_by, last_edited_by), null and default values, ' +
+      'and collapse rich text to strings, with Markdown only where there is formatting (default: false)',
+  },
+}
+
+// Fields that carry no information for a reader
+const BOILERPLATE_KEYS = ['request_id', 'created_by', 'last_edited_by']
+
+// Values Notion returns when nothing was set
+const DEFAULT_VALUES: Record<string, unknown> = {
+  color: 'default',
+  archived: false,
+  in_trash: false,
+  is_inline: false,
+  is_locked: false,
+  is_toggleable: false,
+}
+
+// Envelope fields of list responses, kept by projections that apply to the listed items
+const LIST_ENVELOPE_KEYS = ['object', 'type', 'has_more', 'next_cursor']
+
+// Keys under which Notion stores rich text, which may be empty arrays
+const RICH_TEXT_KEYS = ['rich_text', 'title', 'caption', 'description']
+
+/**
+ * Split the shaping parameters from the other arguments of a tool call
+ * @returns The shaping options, or undefined if none were given, and the remaining arguments
+ */
+export function extractShapingOptions(params: Record<string, any> = {}): [ShapingOptions | undefined, Record<string, any>] {
+  const { fields, exclude, compact, ...rest } = params
+  const options: ShapingOptions = {
+    ...(fields !== undefined ? { fields: pathList(fields) } : {}),
+    ...(exclude !== undefined ? { exclude: pathList(exclude) } : {}),
+    ...(compact === true || compact === 'true' ? { compact: true } : {}),
+  }
+  return [Object.keys(options).length > 0 ? options : undefined, rest]
+}
+
+/**
+ * Apply projection, exclusion and compaction, in that order, to a tool result
+ * @param keepRichText Leave rich text arrays uncollapsed when compacting, so that the result keeps the types of its output schema
+ */
+export function shapeOutput(data: any, options: ShapingOptions, keepRichText = false): any {
+  let shaped = data
+  if (options.fields?.length) {
+    shaped = applyToItems(shaped, (value) => project(value, options.fields!.map(splitPath)), LIST_ENVELOPE_KEYS)
+  }
+  if (options.exclude?.length) {
+    shaped = applyToItems(shaped, (value) => excludePaths(value, options.exclude!.map(splitPath)), [])
+  }
+  if (options.compact) {
+    shaped = compactValue(shaped, keepRichText)
+  }
+  return shaped
+}
+
+// Paths may be given as an array or, as models sometimes do, as a comma-separated string
+function pathList(value: unknown): string[] {
+  const paths = Array.isArray(value) ? value : String(value).split(',')
+  return paths.map((path) => String(path).trim()).filter(Boolean)
+}
+
+function splitPath(path: string): string[] {
+  return path.split('.').filter(Boolean)
+}
+
+// Lists are shaped item by item, keeping their envelope
+function applyToItems(data: any, shape: (value: any) => any, keptKeys: string[]): any {
+  if (data?.object === 'list' && Array.isArray(data.results)) {
+    const envelope = keptKeys.length > 0 ? pick(data, keptKeys) : { ...data }
+    return { ...envelope, results: data.results.map(shape) }
+  }
+  return shape(data)
+}
+
+function pick(value: Record<string, any>, keys: string[]): Record<string, any> {
+  return Object.fromEntries(Object.entries(value).filter(([key]) => keys.includes(key)))
+}
+
+function project(value: any, paths: string[][]): any {
+  if (Array.isArray(value)) return value.map((item) => project(item, paths))
+  if (!isObject(value)) return value
+
+  const result: Record<string, any> = {}
+  for (const [key, child] of Object.entries(value)) {
+    const matching = paths.filter((path) => path[0] === key)
+    if (matching.length === 0) continue
+    result[key] = matching.some((path) => path.length === 1) ? child : project(child, matching.map((path) => path.slice(1)))
+  }
+  return result
+}
+
+function excludePaths(value: any, paths: string[][]): any {
+  if (Array.isArray(value)) return value.map((item) => excludePaths(item, paths))
+  if (!isObject(value)) return value
+
+  const result: Record<string, any> = {}
+  for (const [key, child] of Object.entries(value)) {
+    const matching = paths.filter((path) => path[0] === key)
+    if (matching.some((path) => path.length === 1)) continue
+    result[key] = matching.length > 0 ? excludePaths(child, matching.map((path) => path.slice(1))) : child
+  }
+  return result
+}
+
+function compactValue(value: any, keepRichText: boolean, key?: string): any {
+  if (Array.isArray(value)) {
+    if (!keepRichText && (isRichText(value) || (value.length === 0 && key !== undefined && RICH_TEXT_KEYS.includes(key)))) {
+      return collapseRichText(value)
+    }
+    return value.map((item) => compactValue(item, keepRichText))
+  }
+  if (!isObject(value)) return value
+
+  const result: Record<string, any> = {}
+  for (const [childKey, child] of Object.entries(value)) {
+    if (child === null || child === undefined || BOILERPLATE_KEYS.includes(childKey)) continue
+    if (childKey in DEFAULT_VALUES && DEFAULT_VALUES[childKey] === child) continue
+    result[childKey] = compactValue(child, keepRichText, childKey)
+  }
+  return result
+}
+
+// Annotations that have a Markdown equivalent
+const MARKDOWN_ANNOTATIONS = ['bold', 'italic', 'strikethrough', 'code']
+
+// Rich text keeps Markdown only when some segment is formatted, linked or an equation
+function collapseRichText(richText: any[]): string {
+  const formatted = richText.some(
+    (segment) =>
+      segment.type === 'equation' ||
+      segment.href ||
+      MARKDOWN_ANNOTATIONS.some((name) => segment.annotations?.[name] === true),
+  )
+  return formatted ? richTextToMarkdown(richText) : richTextToPlainText(richText)
+}
+
+function isRichText(value: any[]): boolean {
+  return value.length > 0 && value.every((item) => isObject(item) && typeof item.plain_text === 'string' && typeof item.type === 'string')
+}
+
+function isObject(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
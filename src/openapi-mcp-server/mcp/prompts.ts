@@ -0,0 +1,70 @@
+import type { Prompt } from '@modelcontextprotocol/sdk/types.js'
+import type { NotionResourceRef } from './resources'
+
+export type PromptDefinition = Prompt & {
+  /** Notion content embedded in the prompt, in order */
+  content: (args: Record<string, string>) => NotionResourceRef[]
+  /** Task given to the model after the embedded content */
+  instructions: (args: Record<string, string>) => string
+}
+
+/** Built-in prompts for common reading workflows, exposed by clients as slash commands */
+export const PROMPTS: PromptDefinition[] = [
+  {
+    name: 'summarize-notion-page',
+    description: 'Summarize a Notion page, including its nested content',
+    arguments: [{ name: 'page_id', description: 'ID of the page to summarize', required: true }],
+    content: (args) => [{ kind: 'pageMarkdown', id: args.page_id }],
+    instructions: () =>
+      'Summarize the Notion page above. Start with a one-sentence overview, then list the key points, decisions and open questions. ' +
+      'Keep the structure of the page in mind and do not add information that is not in it.',
+  },
+  {
+    name: 'extract-action-items',
+    description: 'List the action items of a Notion page, with owners and due dates when known',
+    arguments: [{ name: 'page_id', description: 'ID of the page to extract action items from', required: true }],
+    content: (args) => [{ kind: 'pageMarkdown', id: args.page_id }],
+    instructions: () =>
+      'Extract every action item from the Notion page above, including unchecked to-dos and tasks mentioned in the text or comments. ' +
+      'For each item give the task, its owner and due date if the page states them, and whether it is already done. ' +
+      'Answer with a Markdown checklist.',
+  },
+  {
+    name: 'explain-database-schema',
+    description: 'Explain what a Notion database tracks and how its properties are meant to be used',
+    arguments: [{ name: 'database_id', description: 'ID of the database to explain', required: true }],
+    content: (args) => [{ kind: 'database', id: args.database_id }],
+    instructions: () =>
+      'Explain the Notion database schema above to a teammate who has never used it: what each entry represents, ' +
+      'what every property means, which values the select and status properties allow, and how the database relates to others.',
+  },
+  {
+    name: 'compare-notion-pages',
+    description: 'Compare two Notion pages and highlight their differences',
+    arguments: [
+      { name: 'page_id', description: 'ID of the first page', required: true },
+      { name: 'other_page_id', description: 'ID of the second page', required: true },
+    ],
+    content: (args) => [
+      { kind: 'pageMarkdown', id: args.page_id },
+      { kind: 'pageMarkdown', id: args.other_page_id },
+    ],
+    instructions: () =>
+      'Compare the two Notion pages above, in the order given. Describe what they have in common, then the differences ' +
+      'in content, decisions and status, and point out statements that contradict each other.',
+  },
+]
+
+/**
+ * Find a built-in prompt by name
+ */
+export function findPrompt(name: string): PromptDefinition | undefined {
+  return PROMPTS.find((prompt) => prompt.name === name)
+}
+
+/**
+ * Public description of a prompt for prompts/list
+ */
+export function describePrompt({ name, description, arguments: args }: PromptDefinition): Prompt {
+  return { name, description, arguments: args }
+}
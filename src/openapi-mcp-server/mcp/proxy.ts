@@ -1,10 +1,47 @@
 import { Server } from '@modelcontextprotocol/sdk/server/index.js'
 import { Transport } from '@modelcontextprotocol/sdk/shared/transport.js'
-import { CallToolRequestSchema, ListToolsRequestSchema, Tool } from '@modelcontextprotocol/sdk/types.js'
+import {
+  CallToolRequestSchema,
+  CallToolResult,
+  ErrorCode,
+  GetPromptRequestSchema,
+  ListPromptsRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  ListToolsRequestSchema,
+  LoggingLevel,
+  McpError,
+  ProgressToken,
+  PromptMessage,
+  ReadResourceRequestSchema,
+  Resource,
+  ServerNotification,
+  SetLevelRequestSchema,
+  SubscribeRequestSchema,
+  TextContent,
+  Tool,
+  UnsubscribeRequestSchema,
+} from '@modelcontextprotocol/sdk/types.js'
 import { JSONSchema7 as IJsonSchema } from 'json-schema'
 import { OpenAPIV3 } from 'openapi-types'
-import { HttpClient, HttpClientError } from '../client/http-client'
+import { throwIfAborted } from '../client/abort'
+import { HttpClient, HttpClientError, HttpClientResponse, RetryConfig } from '../client/http-client'
+import { RequestScheduler, RequestSchedulerConfig } from '../client/request-scheduler'
 import { OpenAPIToMCPConverter } from '../openapi/parser'
+import { isReadOnlyOperation, operationAnnotations, ReadOnlyOperationError } from '../openapi/read-only'
+import type { CacheStore } from './cache'
+import { ChildrenPage, decodeTraversalCursor, encodeTraversalCursor, readBlockSlice, sliceSize, startTraversal, TraversalPosition } from './block-traversal'
+import { Job, JobCancelledError, JobManager, JobManagerConfig, JobProgress } from './job-manager'
+import { Logger } from './logger'
+import { getNotionObjectTitle, groupCommentThreads, renderDatabaseSchemaToMarkdown, renderFlattenedBlocks, renderPageToMarkdown } from './markdown'
+import { NotionCache, NotionCacheConfig } from './notion-cache'
+import { ContinuationStore, fitToBudget, outputBudget, sliceChunk } from './output-budget'
+import { extractShapingOptions, SHAPING_PARAMETERS, shapeOutput, ShapingOptions } from './output-shaping'
+import { BACKGROUND_RESULT_OUTPUT_SCHEMA, isStructuredContent, ONE_PAGER_OUTPUT_SCHEMA, OutputSchema, toOutputSchema } from './output-schemas'
+import { describePrompt, findPrompt, PROMPTS } from './prompts'
+import { NotionResourceKind, NotionResourceRef, parseResourceUri, RESOURCE_TEMPLATES, resourceMimeType, resourceUri } from './resources'
+import { parseBearerToken, redactSecrets } from './secrets'
+import { SubscriptionPoller, SubscriptionPollerConfig } from './subscriptions'
 
 type PathItemObject = OpenAPIV3.PathItemObject & {
   get?: OpenAPIV3.OperationObject
@@ -59,37 +96,133 @@ interface RecursiveExplorationOptions {
   maxDepth?: number;
   includeDatabases?: boolean;
   includeComments?: boolean;
+  includeBlockComments?: boolean; // Also fetch comments on every block with children, not only on the page
   includeProperties?: boolean;
   maxParallelRequests?: number;
   skipCache?: boolean;
   batchSize?: number;
   timeoutMs?: number;
   runInBackground?: boolean;
+  format?: OnePagerFormat;
+  maxChars?: number; // Output budget; larger results are reduced, then returned in chunks
+  shaping?: ShapingOptions; // Projection and compaction of JSON output, applied before the budget
+  requestLimiter?: RequestScheduler; // Enforces maxParallelRequests for a single exploration
+  signal?: AbortSignal; // Stops issuing requests once aborted, e.g. when a background job is cancelled
+  progress?: JobProgress; // Counters updated as the exploration proceeds
+  onProgress?: (progress: JobProgress) => void; // Called after each progress update
+  pageEditedAt?: string; // last_edited_time of the explored page; cached content with another version is stale
 }
 
+// Server-wide settings, usually taken from the environment and CLI flags
+export interface MCPProxyOptions {
+  rateLimit?: RequestSchedulerConfig;
+  requestScheduler?: RequestScheduler; // shared by several proxies, e.g. one per HTTP session; takes precedence over rateLimit
+  notionToken?: string; // integration token of the session; replaces the Authorization header of OPENAPI_MCP_HEADERS
+  retry?: RetryConfig;
+  logLevel?: LoggingLevel;
+  jobs?: JobManagerConfig;
+  cache?: NotionCacheConfig;
+  subscriptions?: SubscriptionPollerConfig;
+}
+
+// Output formats supported by API-get-one-pager
+type OnePagerFormat = 'json' | 'markdown';
+
+// Reports exploration progress to the client; `force` bypasses throttling
+type ProgressNotifier = (progress: JobProgress, force?: boolean) => void;
+
+// Parameters handled by the proxy itself, keyed by tool name.
+// They are advertised alongside the spec parameters but never forwarded to the Notion API.
+const PROXY_TOOL_PARAMETERS: Record<string, Record<string, IJsonSchema>> = {
+  'API-get-block-children': {
+    chunked: {
+      type: 'boolean',
+      description: 'Return a slice of all descendants, flattened in reading order with their depth, instead of every direct child. ' +
+        'Pass the next_cursor of a slice as start_cursor to read the next one (default: false)',
+    },
+    max_blocks: {
+      type: 'integer',
+      description: 'Number of blocks per slice in chunked mode (default: 100, at most 1000)',
+    },
+  },
+  'API-query-a-database': {
+    max_results: {
+      type: 'integer',
+      description: 'Maximum number of rows to collect across result pages (default: 1000)',
+    },
+  },
+  'API-post-search': {
+    max_results: {
+      type: 'integer',
+      description: 'Maximum number of results to collect across result pages (default: 100)',
+    },
+  },
+}
+
+// Default cap on the number of rows collected by API-query-a-database
+const DEFAULT_QUERY_MAX_RESULTS = 1000;
+
+// Default cap on the number of results collected by API-post-search
+const DEFAULT_SEARCH_MAX_RESULTS = 100;
+
+// Cap on the number of items collected for a paginated page property, such as a relation or people property
+const MAX_PROPERTY_ITEMS = 1000;
+
+// Minimum interval between two progress notifications for the same request
+const PROGRESS_NOTIFICATION_INTERVAL_MS = 250;
+
+// Number of resources returned per resources/list page
+const RESOURCE_LIST_PAGE_SIZE = 100;
+
+// Tools whose results the proxy reshapes, so the spec's response schema does not describe them
+const RESHAPED_RESULT_TOOLS = new Set(['API-post-search']);
+
 // import this class, extend and return server
 export class MCPProxy {
   private server: Server
   private httpClient: HttpClient
   private tools: Record<string, NewToolDefinition>
   private openApiLookup: Record<string, OpenAPIV3.OperationObject & { method: string; path: string }>
-  private pageCache: Map<string, any> = new Map() // Cache for performance improvement
-  private blockCache: Map<string, any> = new Map() // Block cache
-  private databaseCache: Map<string, any> = new Map() // Database cache
-  private commentCache: Map<string, any> = new Map() // Comment cache
-  private propertyCache: Map<string, any> = new Map() // Property cache
-  private backgroundProcessingResults: Map<string, any> = new Map()
-
-  constructor(name: string, openApiSpec: OpenAPIV3.Document) {
-    this.server = new Server({ name, version: '1.0.0' }, { capabilities: { tools: {} } })
+  private outputSchemas: Record<string, OutputSchema> = {} // Keyed by tool name
+  private cache: NotionCache // Bounded caches for performance improvement
+  private jobManager: JobManager
+  private continuations = new ContinuationStore() // One-pager outputs too large for a single response
+  private subscriptions: SubscriptionPoller // Watches subscribed resources for edits
+  private logger: Logger
+  private secrets: string[] = [] // Credentials removed from logs and tool results
+
+  constructor(name: string, openApiSpec: OpenAPIV3.Document, options: MCPProxyOptions = {}) {
+    this.logger = new Logger(name, options.logLevel)
+    this.jobManager = new JobManager(options.jobs)
+    this.cache = new NotionCache(options.cache)
+    this.server = new Server({ name, version: '1.0.0' }, { capabilities: { tools: {}, resources: { subscribe: true }, prompts: {}, logging: {} } })
+    // Diagnostics go to the client as log notifications once the session is initialized
+    this.server.oninitialized = () => this.logger.attach(this.server)
+    this.subscriptions = new SubscriptionPoller(
+      (ref, signal) => this.fetchResourceVersion(ref, signal, true),
+      (uri) => this.server.sendResourceUpdated({ uri }),
+      options.subscriptions,
+      this.logger,
+    )
+    // Background jobs and subscriptions belong to the session and stop with it
+    this.server.onclose = () => {
+      this.logger.detach()
+      this.jobManager.cancelAll()
+      this.subscriptions.stop()
+    }
     const baseUrl = openApiSpec.servers?.[0].url
     if (!baseUrl) {
       throw new Error('No base URL found in OpenAPI spec')
     }
+    const headers = this.buildHeaders(options.notionToken)
     this.httpClient = new HttpClient(
       {
         baseUrl,
-        headers: this.parseHeadersFromEnv(),
+        headers,
+        readOnly: true,
+        retry: options.retry,
+        rateLimit: options.rateLimit,
+        scheduler: options.requestScheduler,
       },
       openApiSpec,
     )
@@ -99,6 +232,7 @@ export class MCPProxy {
     const { tools, openApiLookup } = converter.convertToMCPTools()
     this.tools = tools
     this.openApiLookup = openApiLookup
+    this.collectOutputSchemas()
 
     this.setupHandlers()
   }
@@ -109,24 +243,35 @@ export class MCPProxy {
       const tools: Tool[] = []
 
       // Log available tools
-      console.log('One Pager Assistant - Available tools:')
+      this.logger.debug('One Pager Assistant - Available tools:')
 
       // Add methods as separate tools to match the MCP format
       Object.entries(this.tools).forEach(([toolName, def]) => {
         def.methods.forEach(method => {
           const toolNameWithMethod = `${toolName}-${method.name}`;
           const truncatedToolName = this.truncateToolName(toolNameWithMethod);
+          
+          // Never advertise operations that could mutate data
+          const operation = this.openApiLookup[toolNameWithMethod];
+          if (operation && !isReadOnlyOperation(operation)) {
+            this.logger.debug(`- ${truncatedToolName}: skipped (not read-only)`)
+            return;
+          }
+          
+          const outputSchema = this.outputSchemas[truncatedToolName];
           tools.push({
             name: truncatedToolName,
             description: method.description,
-            inputSchema: method.inputSchema as Tool['inputSchema'],
+            inputSchema: this.withProxyParameters(truncatedToolName, method.inputSchema) as Tool['inputSchema'],
+            ...(outputSchema ? { outputSchema } : {}),
+            ...(operation ? { annotations: operationAnnotations(operation) } : {}),
           })
-          console.log(`- ${truncatedToolName}: ${method.description}`)
+          this.logger.debug(`- ${truncatedToolName}: ${method.description}`)
         })
       })
 
       // Add extended One Pager tool
-      const onePagerTool = {
+      const onePagerTool: Tool = {
         name: 'API-get-one-pager',
         description: 'Recursively retrieve a full Notion page with all its blocks, databases, and related content',
         inputSchema: {
@@ -148,6 +293,10 @@ export class MCPProxy {
               type: 'boolean',
               description: 'Whether to include comments (default: true)',
             },
+            includeBlockComments: {
+              type: 'boolean',
+              description: 'Whether to also include comments on every block with children, at one request per block (default: false)',
+            },
             includeProperties: {
               type: 'boolean',
               description: 'Whether to include detailed page properties (default: true)',
@@ -160,75 +309,235 @@ export class MCPProxy {
               type: 'integer',
               description: 'Batch size for parallel processing (default: 10)',
             },
+            skipCache: {
+              type: 'boolean',
+              description: 'Fetch everything from Notion instead of reusing cached content (default: false)',
+            },
             timeoutMs: {
               type: 'integer',
-              description: 'Timeout in milliseconds (default: 300000)',
+              description: 'Timeout in milliseconds (default: 300000, or none when a progress token is given)',
             },
             runInBackground: {
               type: 'boolean',
-              description: 'Process request in background without timeout (default: true)',
-            }
+              description: 'Process request in background without timeout (default: true, or false when a progress token is given)',
+            },
+            format: {
+              type: 'string',
+              enum: ['json', 'markdown'],
+              description: 'Output format: raw Notion JSON or rendered Markdown (default: json)',
+            },
+            maxChars: {
+              type: 'integer',
+              description: 'Output budget in characters (at least 1000). Larger outputs drop annotations, then comments, ' +
+                'then the deepest blocks, and are finally returned in chunks with a continuationCursor',
+            },
+            maxOutputTokens: {
+              type: 'integer',
+              description: 'Output budget in tokens, counted as 4 characters each; the smaller of maxChars and maxOutputTokens applies',
+            },
+            chunked: {
+              type: 'boolean',
+              description: 'Return the page in slices of its block tree, flattened in reading order with their depth, ' +
+                'each with a continuationCursor for the next slice (default: false)',
+            },
+            chunkSize: {
+              type: 'integer',
+              description: 'Number of blocks per slice in chunked mode (default: 100, at most 1000)',
+            },
+            cursor: {
+              type: 'string',
+              description: 'continuationCursor of a previous truncated output or slice; returns what comes next',
+            },
           },
           required: ['page_id'],
         } as Tool['inputSchema'],
+        outputSchema: ONE_PAGER_OUTPUT_SCHEMA,
+        annotations: {
+          title: 'Get a full page',
+          readOnlyHint: true,
+          idempotentHint: true,
+          openWorldHint: true,
+        },
       };
       
       tools.push(onePagerTool);
-      console.log(`- ${onePagerTool.name}: ${onePagerTool.description}`);
+      this.logger.debug(`- ${onePagerTool.name}: ${onePagerTool.description}`);
       
       // Add tool to retrieve background processing results
-      const backgroundResultTool = {
+      const backgroundResultTool: Tool = {
         name: 'API-get-background-result',
-        description: 'Retrieve the result of a background processing request',
+        description: 'Retrieve the status, progress and result of a background processing job',
         inputSchema: {
           type: 'object',
           properties: {
+            job_id: {
+              type: 'string',
+              description: 'Identifier of the job returned when the background request was started',
+            },
             page_id: {
               type: 'string',
-              description: 'Identifier for the Notion page that was processed in background',
+              description: 'Identifier for the Notion page that was processed in background; the most recent job for the page is used',
             },
           },
-          required: ['page_id'],
         } as Tool['inputSchema'],
+        outputSchema: BACKGROUND_RESULT_OUTPUT_SCHEMA,
+        annotations: {
+          title: 'Get background job result',
+          readOnlyHint: true,
+          idempotentHint: true,
+          openWorldHint: false,
+        },
       };
       
       tools.push(backgroundResultTool);
-      console.log(`- ${backgroundResultTool.name}: ${backgroundResultTool.description}`);
+      this.logger.debug(`- ${backgroundResultTool.name}: ${backgroundResultTool.description}`);
+
+      // Add tool to cancel background processing
+      const cancelJobTool: Tool = {
+        name: 'API-cancel-background-job',
+        description: 'Cancel a queued or running background processing job',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            job_id: {
+              type: 'string',
+              description: 'Identifier of the job to cancel',
+            },
+          },
+          required: ['job_id'],
+        } as Tool['inputSchema'],
+        // Jobs belong to the proxy, so cancelling one leaves the Notion workspace untouched
+        annotations: {
+          title: 'Cancel background job',
+          readOnlyHint: true,
+          idempotentHint: true,
+          openWorldHint: false,
+        },
+      };
+
+      tools.push(cancelJobTool);
+      this.logger.debug(`- ${cancelJobTool.name}: ${cancelJobTool.description}`);
+
+      // Add cache management tools
+      const cacheTools: Tool[] = [
+        {
+          name: 'API-get-cache-stats',
+          description: 'Report cache statistics: entries, approximate size, hits and misses per cached object type',
+          inputSchema: {
+            type: 'object',
+            properties: {},
+          } as Tool['inputSchema'],
+          annotations: { title: 'Get cache statistics', readOnlyHint: true, idempotentHint: true, openWorldHint: false },
+        },
+        {
+          name: 'API-invalidate-cache',
+          description: 'Remove cached content for a Notion object, optionally with everything below it, or clear the whole cache',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              object_id: {
+                type: 'string',
+                description: 'Identifier of the page, database or block to invalidate',
+              },
+              subtree: {
+                type: 'boolean',
+                description: 'Also invalidate cached child blocks and pages below the object (default: false)',
+              },
+              all: {
+                type: 'boolean',
+                description: 'Clear every cache; object_id is ignored (default: false)',
+              },
+            },
+          } as Tool['inputSchema'],
+          // Only the proxy's cache is affected; dropped content is fetched again from Notion when needed
+          annotations: { title: 'Invalidate cache', readOnlyHint: true, idempotentHint: true, openWorldHint: false },
+        },
+        {
+          name: 'API-warm-cache',
+          description: 'Load pages into the cache in a background job; poll it with API-get-background-result',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              page_ids: {
+                type: 'array',
+                items: { type: 'string' },
+                description: 'Identifiers of the Notion pages to load',
+              },
+              maxDepth: {
+                type: 'integer',
+                description: 'Maximum recursion depth (default: 5)',
+              },
+            },
+            required: ['page_ids'],
+          } as Tool['inputSchema'],
+          // Each call starts a new job
+          annotations: { title: 'Warm cache', readOnlyHint: true, idempotentHint: false, openWorldHint: true },
+        },
+      ];
 
-      return { tools }
+      for (const cacheTool of cacheTools) {
+        tools.push(cacheTool);
+        this.logger.debug(`- ${cacheTool.name}: ${cacheTool.description}`);
+      }
+
+      return { tools: tools.map((tool) => this.withShapingParameters(tool)) }
     })
 
     // Handle tool calling
-    this.server.setRequestHandler(CallToolRequestSchema, async (request) => {
-      const { name, arguments: params } = request.params
+    this.server.setRequestHandler(CallToolRequestSchema, async (request, extra) => this.withSecretsRedacted(() =>
+      this.withOutputShaping(request.params.name, request.params.arguments, async (params, shaping) => {
+      const { name } = request.params
 
-      console.log(`One Pager Assistant - Tool call: ${name}`)
-      console.log('Parameters:', JSON.stringify(params, null, 2))
+      // Parameter values may contain workspace content, so only their names are logged
+      this.logger.info(`One Pager Assistant - Tool call: ${name}`)
+      this.logger.debug('Parameters:', Object.keys(params || {}).join(', '))
 
       try {
         // Handle extended One Pager tool
         if (name === 'API-get-one-pager') {
-          return await this.handleOnePagerRequest(params);
+          const progressToken = request.params._meta?.progressToken;
+          const notifier = progressToken !== undefined && extra
+            ? this.createProgressNotifier(progressToken, extra.sendNotification)
+            : undefined;
+          return await this.handleOnePagerRequest({ ...params, shaping }, notifier, extra?.signal);
         }
         
         // Handle background result retrieval
         if (name === 'API-get-background-result') {
-          const result = this.getBackgroundProcessingResult(params?.page_id as string);
+          const result = this.getBackgroundProcessingResult(params?.job_id as string, params?.page_id as string);
+          return this.onePagerResult(result);
+        }
+
+        // Handle background job cancellation
+        if (name === 'API-cancel-background-job') {
+          const job = this.jobManager.cancel(params?.job_id as string);
           return {
             content: [
               {
                 type: 'text',
-                text: JSON.stringify(result),
+                text: JSON.stringify(job ? this.describeJob(job) : this.jobNotFound(params?.job_id as string)),
               },
             ],
+            ...(job ? {} : { isError: true }),
           };
         }
 
+        // Handle cache management
+        if (name === 'API-get-cache-stats') {
+          return this.handleCacheStats();
+        }
+        if (name === 'API-invalidate-cache') {
+          return this.handleCacheInvalidation(params);
+        }
+        if (name === 'API-warm-cache') {
+          return this.handleCacheWarming(params);
+        }
+
         // Find the operation in OpenAPI spec
         const operation = this.findOperation(name)
         if (!operation) {
           const error = `Method ${name} not found.`
-          console.error(error)
+          this.logger.error(error)
           return {
             content: [
               {
@@ -243,59 +552,78 @@ export class MCPProxy {
           }
         }
 
+        // Refuse mutating operations even when they are present in the spec
+        if (!isReadOnlyOperation(operation)) {
+          const error = new ReadOnlyOperationError(operation.operationId, operation.method)
+          this.logger.error(error.message)
+          return this.readOnlyErrorResponse(error)
+        }
+
         // Optimized parallel processing for API-get-block-children
         if (name === 'API-get-block-children') {
+          const { chunked, max_blocks, ...blockParams } = params || {};
+          if (chunked) {
+            return await this.handleBlockChildrenSlice(operation, blockParams, sliceSize(max_blocks), extra?.signal);
+          }
+          
           // Create basic options for logging control
           const blockOptions: RecursiveExplorationOptions = {
             runInBackground: false, // Default to not showing logs for regular API calls
+            signal: extra?.signal,
           };
           
-          return await this.handleBlockChildrenParallel(operation, params, blockOptions);
+          return await this.handleBlockChildrenParallel(operation, blockParams, blockOptions);
+        }
+
+        // Database queries are POSTs but read-only; follow pagination to return every matching page
+        if (name === 'API-query-a-database') {
+          return await this.handleDatabaseQuery(operation, params, extra?.signal);
+        }
+
+        // Search is also a read-only POST; results are paginated up to a cap and compacted
+        if (name === 'API-post-search') {
+          return await this.handleSearch(operation, params, extra?.signal);
+        }
+
+        // List-valued properties are paginated; follow their pages and merge the items
+        if (name === 'API-retrieve-a-page-property') {
+          const response = await this.retrievePageProperty(operation, params, { signal: extra?.signal });
+          return this.jsonResult(name, response.data);
         }
 
         // Other regular API calls
-        console.log(`Notion API call: ${operation.method.toUpperCase()} ${operation.path}`)
-        const response = await this.httpClient.executeOperation(operation, params)
+        this.logger.debug(`Notion API call: ${operation.method.toUpperCase()} ${operation.path}`)
+        const response = await this.executeOperation(operation, params, { signal: extra?.signal })
 
         // Log response summary
-        console.log('Notion API response code:', response.status)
+        this.logger.debug('Notion API response code:', response.status)
         if (response.status !== 200) {
-          console.error('Response error:', response.data)
-        } else {
-          console.log('Response success')
+          this.logger.error('Response error:', response.data)
+          return this.apiErrorResult(response.status, 'Request failed', response.data)
         }
+        this.logger.debug('Response success')
 
         // Update cache with response data
         this.updateCacheFromResponse(name, response.data);
 
         // Convert response to MCP format
-        return {
-          content: [
-            {
-              type: 'text',
-              text: JSON.stringify(response.data),
-            },
-          ],
-        }
+        return this.jsonResult(name, response.data)
       } catch (error) {
-        console.error('Tool call error', error)
+        // The client cancelled the call, so no response is sent and there is nothing to report
+        if (extra?.signal?.aborted) {
+          this.logger.debug(`Tool call cancelled: ${name}`)
+          throw error
+        }
+
+        this.logger.error('Tool call error', error)
+        
+        if (error instanceof ReadOnlyOperationError) {
+          return this.readOnlyErrorResponse(error)
+        }
         
         if (error instanceof HttpClientError) {
-          console.error('HttpClientError occurred, returning structured error', error)
-          const data = error.data?.response?.data ?? error.data ?? {}
-          return {
-            content: [
-              {
-                type: 'text',
-                text: JSON.stringify({
-                  status: 'error',
-                  code: error.status,
-                  message: error.message,
-                  details: typeof data === 'object' ? data : { data: data },
-                }),
-              },
-            ],
-          }
+          this.logger.error('HttpClientError occurred, returning structured error', error)
+          return this.apiErrorResult(error.status, error.message, error.data?.response?.data ?? error.data, error.retries)
         }
         
         // Ensure any other errors are also properly formatted as JSON
@@ -310,9 +638,80 @@ export class MCPProxy {
               }),
             },
           ],
+          isError: true,
         }
       }
+    })))
+
+    // Handle log level changes requested by the client
+    this.server.setRequestHandler(SetLevelRequestSchema, async (request) => {
+      this.logger.setLevel(request.params.level)
+      return {}
+    })
+
+    // Expose Notion content as resources; the listing shows what is cached, any page can be read by URI
+    this.server.setRequestHandler(ListResourcesRequestSchema, async (request) => this.listResources(request.params?.cursor))
+    this.server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => ({ resourceTemplates: RESOURCE_TEMPLATES }))
+    this.server.setRequestHandler(ReadResourceRequestSchema, async (request, extra) =>
+      this.withSecretsRedacted(() => this.readResource(request.params.uri, extra?.signal)),
+    )
+    this.server.setRequestHandler(SubscribeRequestSchema, async (request, extra) =>
+      this.withSecretsRedacted(() => this.subscribeResource(request.params.uri, extra?.signal)),
+    )
+    this.server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+      this.subscriptions.unsubscribe(request.params.uri)
+      return {}
     })
+
+    // Built-in prompts embedding the Notion content they are about
+    this.server.setRequestHandler(ListPromptsRequestSchema, async () => ({ prompts: PROMPTS.map(describePrompt) }))
+    this.server.setRequestHandler(GetPromptRequestSchema, async (request, extra) =>
+      this.withSecretsRedacted(() => this.getPrompt(request.params.name, request.params.arguments, extra?.signal)),
+    )
+  }
+
+  // Structured error returned when a Notion API request fails; error bodies are passed on as details
+  private apiErrorResult(status: number, message: string, data: any, retries = 0): CallToolResult {
+    const details = data ?? {};
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify({
+            status: 'error',
+            code: status,
+            message,
+            details: {
+              ...(typeof details === 'object' ? details : { data: details }),
+              ...(retries > 0 ? { retries } : {}),
+            },
+          }),
+        },
+      ],
+      isError: true,
+    };
+  }
+
+  // Structured error returned when a mutating operation is blocked
+  private readOnlyErrorResponse(error: ReadOnlyOperationError): CallToolResult {
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify({
+            status: 'error',
+            code: 403,
+            message: error.message,
+            details: {
+              reason: 'read_only',
+              operation: error.operationId,
+              method: error.method.toUpperCase(),
+            },
+          }),
+        },
+      ],
+      isError: true,
+    }
   }
 
   // Update cache based on API response type
@@ -322,50 +721,70 @@ export class MCPProxy {
     try {
       // Update appropriate cache based on API response type
       if (apiName === 'API-retrieve-a-page' && data.object === 'page' && data.id) {
-        this.pageCache.set(data.id, data);
+        this.cache.pages.set(data.id, data);
       } else if (apiName === 'API-retrieve-a-block' && data.object === 'block' && data.id) {
-        this.blockCache.set(data.id, data);
+        this.cache.blocks.set(data.id, data);
       } else if (apiName === 'API-retrieve-a-database' && data.object === 'database' && data.id) {
-        this.databaseCache.set(data.id, data);
+        this.cache.databases.set(data.id, data);
       } else if (apiName === 'API-retrieve-a-comment' && data.results) {
         // Cache comments from result list
         data.results.forEach((comment: any) => {
           if (comment.object === 'comment' && comment.id) {
-            this.commentCache.set(comment.id, comment);
+            this.cache.comments.set(comment.id, comment);
           }
         });
       } else if (apiName === 'API-retrieve-a-page-property' && data.results) {
         // Page property caching - would need params from call context
         // Skip this in current context
-        console.log('Page property information has been cached');
+        this.logger.debug('Page property information has been cached');
       }
 
       // API-get-block-children handled in handleBlockChildrenParallel
     } catch (error) {
-      console.warn('Error updating cache:', error);
+      this.logger.warning('Error updating cache:', error);
     }
   }
 
-  // One Pager request handler
-  private async handleOnePagerRequest(params: any) {
-    if (params.runInBackground !== false) {
-      console.log('Starting One Pager request processing:', params.page_id);
+  // One Pager request handler.
+  // With a progress notifier the request runs in the foreground by default and without timeout,
+  // since the client can follow its progress instead of polling a background job.
+  private async handleOnePagerRequest(params: any, notifyProgress?: ProgressNotifier, signal?: AbortSignal) {
+    const position = params.cursor !== undefined ? decodeTraversalCursor(String(params.cursor)) : undefined;
+    if (params.chunked || position) {
+      return this.handleOnePagerSlice(params, position, signal);
+    }
+    if (params.cursor !== undefined) {
+      return this.continueOnePager(params);
+    }
+    
+    const runInBackground = params.runInBackground !== undefined ? params.runInBackground !== false : !notifyProgress;
+    if (runInBackground) {
+      this.logger.info('Starting One Pager request processing:', params.page_id);
     }
     
     const options: RecursiveExplorationOptions = {
       maxDepth: params.maxDepth || 5,
       includeDatabases: params.includeDatabases !== false,
       includeComments: params.includeComments !== false,
+      includeBlockComments: params.includeBlockComments === true,
       includeProperties: params.includeProperties !== false,
       maxParallelRequests: params.maxParallelRequests || 15,
       skipCache: params.skipCache || false,
       batchSize: params.batchSize || 10,
-      timeoutMs: params.timeoutMs || 300000, // Increased timeout to 5 minutes (300000ms)
-      runInBackground: params.runInBackground !== false,
+      timeoutMs: params.timeoutMs || (notifyProgress ? 0 : 300000), // Increased timeout to 5 minutes (300000ms)
+      runInBackground,
+      format: params.format === 'markdown' ? 'markdown' : 'json',
+      maxChars: outputBudget(params),
+      shaping: params.shaping,
     };
+    // All requests still go through the client's shared rate limiter; this only caps the exploration's own parallelism
+    options.requestLimiter = new RequestScheduler({
+      requestsPerSecond: Infinity,
+      maxConcurrent: options.maxParallelRequests,
+    });
     
     if (options.runInBackground) {
-      console.log('Exploration options:', JSON.stringify(options, null, 2));
+      this.logger.debug('Exploration options:', JSON.stringify(options, null, 2));
     }
     
     try {
@@ -375,67 +794,76 @@ export class MCPProxy {
       if (options.runInBackground) {
         // Return immediately with a background processing message
         // The actual processing will continue in the background
-        this.runBackgroundProcessing(params.page_id, options);
+        const job = this.runBackgroundProcessing(params.page_id, options);
+        const jobDescription = {
+          status: job.status,
+          job_id: job.id,
+          message: `Request processing for page ${params.page_id} started in background`,
+          page_id: params.page_id,
+          request_time: new Date().toISOString(),
+          options: {
+            maxDepth: options.maxDepth,
+            includeDatabases: options.includeDatabases,
+            includeComments: options.includeComments,
+            includeProperties: options.includeProperties,
+            timeoutMs: options.timeoutMs,
+            format: options.format,
+            maxChars: options.maxChars
+          }
+        };
         
         return {
           content: [
             {
               type: 'text',
-              text: JSON.stringify({
-                status: 'processing',
-                message: `Request processing for page ${params.page_id} started in background`,
-                page_id: params.page_id,
-                request_time: new Date().toISOString(),
-                options: {
-                  maxDepth: options.maxDepth,
-                  includeDatabases: options.includeDatabases,
-                  includeComments: options.includeComments,
-                  includeProperties: options.includeProperties,
-                  timeoutMs: options.timeoutMs
-                }
-              }),
+              text: JSON.stringify(jobDescription),
             },
           ],
+          structuredContent: jobDescription,
         };
       }
       
       // Foreground processing (standard behavior)
+      if (notifyProgress) {
+        options.progress = { blocksDiscovered: 0, blocksFetched: 0, requestsMade: 0 };
+        options.onProgress = (progress) => notifyProgress(progress);
+      }
+      options.signal = signal;
       const pageData = await this.retrievePageRecursively(params.page_id, options);
+      // Nested failures are recorded in the page data; after a cancellation that data is incomplete, so drop it
+      throwIfAborted(signal);
+      if (notifyProgress && options.progress) {
+        notifyProgress(options.progress, true);
+      }
       
       const duration = Date.now() - startTime;
       if (options.runInBackground) {
-        console.log(`One Pager completed in ${duration}ms for page ${params.page_id}`);
+        this.logger.info(`One Pager completed in ${duration}ms for page ${params.page_id}`);
       }
       
-      return {
-        content: [
-          {
-            type: 'text',
-            text: JSON.stringify({
-              ...pageData,
-              _meta: {
-                processingTimeMs: duration,
-                retrievedAt: new Date().toISOString(),
-                options: {
-                  maxDepth: options.maxDepth,
-                  includeDatabases: options.includeDatabases,
-                  includeComments: options.includeComments,
-                  includeProperties: options.includeProperties
-                }
-              }
-            }),
-          },
-        ],
-      };
+      return this.onePagerResult(this.renderOnePager(params.page_id, pageData, options, {
+        processingTimeMs: duration,
+        retrievedAt: new Date().toISOString(),
+        options: {
+          maxDepth: options.maxDepth,
+          includeDatabases: options.includeDatabases,
+          includeComments: options.includeComments,
+          includeProperties: options.includeProperties
+        }
+      }));
     } catch (error) {
+      if (signal?.aborted) {
+        throw error;
+      }
       if (options.runInBackground) {
-        console.error('Error in One Pager request:', error);
+        this.logger.error('Error in One Pager request:', error);
       }
       const errorResponse = {
         status: 'error',
         message: error instanceof Error ? error.message : String(error),
         code: error instanceof HttpClientError ? error.status : 500,
         details: error instanceof HttpClientError ? error.data : undefined,
+        retries: error instanceof HttpClientError && error.retries > 0 ? error.retries : undefined,
         timestamp: new Date().toISOString()
       };
       
@@ -446,70 +874,558 @@ export class MCPProxy {
             text: JSON.stringify(errorResponse),
           },
         ],
+        structuredContent: errorResponse,
+        isError: true,
       };
     }
   }
 
-  // New method to run processing in background
-  private runBackgroundProcessing(pageId: string, options: RecursiveExplorationOptions): void {
-    // Use setTimeout to detach from the current execution context
-    setTimeout(async () => {
+  // Start a background job for the page; its result is kept by the job manager
+  private runBackgroundProcessing(pageId: string, options: RecursiveExplorationOptions): Job {
+    return this.jobManager.start('API-get-one-pager', { page_id: pageId, format: options.format }, async (job) => {
+      this.logger.info(`Background processing started for page ${pageId} (job ${job.id})`);
+      const startTime = Date.now();
+      
       try {
-        console.log(`Background processing started for page ${pageId}`);
-        const startTime = Date.now();
-        
         // Execute the recursive page retrieval without time restrictions
-        const noTimeoutOptions = { ...options, timeoutMs: 0 }; // 0 means no timeout
+        const noTimeoutOptions = { ...options, timeoutMs: 0, signal: job.signal, progress: job.progress }; // 0 means no timeout
         const pageData = await this.retrievePageRecursively(pageId, noTimeoutOptions);
+        throwIfAborted(job.signal);
         
         const duration = Date.now() - startTime;
-        console.log(`Background processing completed in ${duration}ms for page ${pageId}`);
+        this.logger.info(`Background processing completed in ${duration}ms for page ${pageId} (job ${job.id})`);
         
-        // Store the result in cache for later retrieval
-        this.storeBackgroundProcessingResult(pageId, {
-          ...pageData,
-          _meta: {
-            processingTimeMs: duration,
-            retrievedAt: new Date().toISOString(),
-            processedInBackground: true,
-            options: {
-              maxDepth: options.maxDepth,
-              includeDatabases: options.includeDatabases,
-              includeComments: options.includeComments,
-              includeProperties: options.includeProperties
-            }
+        return this.renderOnePager(pageId, pageData, options, {
+          processingTimeMs: duration,
+          retrievedAt: new Date().toISOString(),
+          processedInBackground: true,
+          job_id: job.id,
+          options: {
+            maxDepth: options.maxDepth,
+            includeDatabases: options.includeDatabases,
+            includeComments: options.includeComments,
+            includeProperties: options.includeProperties,
+            format: options.format
           }
         });
       } catch (error) {
-        console.error(`Background processing error for page ${pageId}:`, error);
-        // Store error result for later retrieval
-        this.storeBackgroundProcessingResult(pageId, {
-          status: 'error',
-          page_id: pageId,
-          message: error instanceof Error ? error.message : String(error),
-          timestamp: new Date().toISOString()
-        });
+        if (!(error instanceof JobCancelledError)) {
+          this.logger.error(`Background processing error for page ${pageId} (job ${job.id}):`, error);
+        }
+        throw error;
       }
-    }, 0);
+    });
+  }
+  
+  // Render one-pager page data in the requested format, within the output budget if there is one.
+  // Outputs still too large once reduced are stored, and their first chunk is returned with a continuation cursor.
+  private renderOnePager(pageId: string, pageData: any, options: RecursiveExplorationOptions, meta: Record<string, any>): any {
+    const format = options.format ?? 'json';
+    const maxChars = options.maxChars;
+    if (format === 'json' && options.shaping) {
+      pageData = shapeOutput(pageData, options.shaping);
+    }
+    const withBudget = (reductions: string[]) => (maxChars ? { ...meta, budget: { maxChars, reductions } } : meta);
+    const render = (data: any, reductions: string[]) =>
+      format === 'markdown' ? renderPageToMarkdown(data, reductions) : JSON.stringify({ ...data, _meta: withBudget(reductions) });
+    
+    const output = maxChars
+      ? fitToBudget(pageData, render, maxChars)
+      : { data: pageData, text: render(pageData, []), reductions: [], fits: true };
+    const _meta = withBudget(output.reductions);
+    if (output.fits) {
+      return format === 'markdown' ? { markdown: output.text, _meta } : { ...output.data, _meta };
+    }
+    
+    const { chunk, nextOffset } = sliceChunk(output.text, 0, maxChars!);
+    const continuationCursor = this.continuations.save({ pageId, format, text: output.text, maxChars: maxChars! }, nextOffset!);
+    return { chunk, format, truncated: true, offset: 0, totalChars: output.text.length, continuationCursor, _meta };
+  }
+  
+  // Read the page as slices of its flattened block tree; the first slice also carries the page itself.
+  // Slices hold the blocks as returned by Notion, without databases, comments or detailed properties.
+  private async handleOnePagerSlice(params: any, position: TraversalPosition | undefined, signal?: AbortSignal) {
+    const operation = this.findOperation('API-get-block-children');
+    if (!operation) {
+      throw new Error('API-get-block-children method not found.');
+    }
+    if (position && !this.sameObjectId(position.root, params.page_id)) {
+      return this.cursorError(`The cursor belongs to page ${position.root}, not ${params.page_id}`);
+    }
+    
+    const isFirstSlice = !position;
+    const slice = await readBlockSlice(
+      position ?? startTraversal(params.page_id, params.maxDepth || 5),
+      (blockId, startCursor) => this.fetchChildrenPage(operation, blockId, startCursor, signal),
+      sliceSize(params.chunkSize),
+      signal,
+    );
+    const page = isFirstSlice
+      ? await this.readNotionObject('API-retrieve-a-page', { page_id: params.page_id }, this.cache.pages, signal)
+      : { id: params.page_id };
+    const continuation = {
+      has_more: !!slice.next,
+      ...(slice.next ? { continuationCursor: encodeTraversalCursor(slice.next) } : {}),
+    };
+    
+    if (params.format === 'markdown') {
+      const header = isFirstSlice ? renderPageToMarkdown({ ...page, content: [] }).trim() : '';
+      const chunk = [header, renderFlattenedBlocks(slice.blocks)].filter(Boolean).join('\n\n') + '\n';
+      return this.onePagerResult({ chunk, format: 'markdown', ...continuation });
+    }
+    const data = { ...page, content: slice.blocks };
+    return this.onePagerResult({ ...(params.shaping ? shapeOutput(data, params.shaping) : data), ...continuation });
+  }
+  
+  // Slice of the flattened descendants of a block; start_cursor holds the position of a previous slice
+  private async handleBlockChildrenSlice(
+    operation: OpenAPIV3.OperationObject & { method: string; path: string },
+    params: any,
+    maxBlocks: number,
+    signal?: AbortSignal
+  ) {
+    const position = params.start_cursor ? decodeTraversalCursor(String(params.start_cursor)) : startTraversal(params.block_id);
+    if (!position || !this.sameObjectId(position.root, params.block_id)) {
+      return this.cursorError(`start_cursor is not the next_cursor of a chunked listing of block ${params.block_id}`);
+    }
+    
+    const slice = await readBlockSlice(
+      position,
+      (blockId, startCursor) => this.fetchChildrenPage(operation, blockId, startCursor, signal),
+      maxBlocks,
+      signal,
+    );
+    return this.jsonResult('API-get-block-children', {
+      object: 'list',
+      results: slice.blocks,
+      has_more: !!slice.next,
+      next_cursor: slice.next ? encodeTraversalCursor(slice.next) : null,
+    });
   }
   
-  // Store background processing results
-  private storeBackgroundProcessingResult(pageId: string, result: any): void {
-    this.backgroundProcessingResults.set(pageId, result);
+  // One page of a block's children, as read by sliced traversals
+  private async fetchChildrenPage(
+    operation: OpenAPIV3.OperationObject & { method: string; path: string },
+    blockId: string,
+    startCursor?: string,
+    signal?: AbortSignal
+  ): Promise<ChildrenPage> {
+    const response = await this.executeOperation(operation, {
+      block_id: blockId,
+      page_size: 100,
+      ...(startCursor ? { start_cursor: startCursor } : {}),
+    }, { signal });
+    const data = response.data ?? {};
+    for (const block of data.results ?? []) {
+      if (block?.id) {
+        this.cache.blocks.set(block.id, block);
+      }
+    }
+    return data;
   }
   
-  // Add a new tool method to retrieve background processing results
-  public getBackgroundProcessingResult(pageId: string): any {
-    return this.backgroundProcessingResults.get(pageId) || { 
+  // Structured error for cursors that cannot be resumed
+  private cursorError(message: string): CallToolResult {
+    const errorResponse = { status: 'error', code: 400, message };
+    return {
+      content: [{ type: 'text', text: JSON.stringify(errorResponse) }],
+      structuredContent: errorResponse,
+      isError: true,
+    };
+  }
+  
+  // Notion ids are accepted with or without dashes
+  private sameObjectId(id: string, other: unknown): boolean {
+    const normalize = (value: unknown) => String(value ?? '').replace(/-/g, '').toLowerCase();
+    return normalize(id) === normalize(other);
+  }
+  
+  // Next chunk of a one-pager output that did not fit its budget
+  private continueOnePager(params: any) {
+    const resolved = this.continuations.resolve(String(params.cursor));
+    if (!resolved) {
+      return this.cursorError('The cursor is invalid or has expired; call API-get-one-pager again without cursor');
+    }
+    if (params.page_id !== undefined && !this.sameObjectId(resolved.continuation.pageId, params.page_id)) {
+      return this.cursorError(`The cursor belongs to page ${resolved.continuation.pageId}, not ${params.page_id}`);
+    }
+    
+    const { continuation, offset } = resolved;
+    const { chunk, nextOffset } = sliceChunk(continuation.text, offset, outputBudget(params) ?? continuation.maxChars);
+    return this.onePagerResult({
+      chunk,
+      format: continuation.format,
+      truncated: true,
+      offset,
+      totalChars: continuation.text.length,
+      ...(nextOffset !== undefined ? { continuationCursor: this.continuations.next(String(params.cursor), nextOffset) } : {}),
+    });
+  }
+  
+  // Tool result of a one-pager output: Markdown is returned as-is rather than wrapped in JSON,
+  // and chunks come with a second text item describing how to continue
+  private onePagerResult(output: any): CallToolResult {
+    if (typeof output?.chunk === 'string') {
+      const { chunk, ...continuation } = output;
+      return {
+        content: [
+          { type: 'text', text: chunk },
+          { type: 'text', text: JSON.stringify(continuation) },
+        ],
+        structuredContent: output,
+      };
+    }
+    return {
+      content: [
+        {
+          type: 'text',
+          text: typeof output?.markdown === 'string' ? output.markdown : JSON.stringify(output),
+        },
+      ],
+      ...(isStructuredContent(output) ? { structuredContent: output } : {}),
+    };
+  }
+  
+  // Look up a background job by id, or the latest job for a page, and describe it.
+  // Finished jobs return their result as-is so that clients can use it like a foreground response.
+  public getBackgroundProcessingResult(jobId?: string, pageId?: string): any {
+    const job = jobId
+      ? this.jobManager.get(jobId)
+      : this.jobManager.findLatest((candidate) => candidate.kind === 'API-get-one-pager' && candidate.params.page_id === pageId);
+    
+    if (!job) {
+      return jobId ? this.jobNotFound(jobId) : {
+        status: 'not_found',
+        message: `No background processing result found for page ${pageId}`
+      };
+    }
+    
+    if (job.status === 'done') {
+      return job.result;
+    }
+    return this.describeJob(job);
+  }
+
+  // Report per-type cache statistics along with totals
+  private handleCacheStats() {
+    const types = this.cache.stats();
+    const total = { entries: 0, bytes: 0, hits: 0, misses: 0, stale: 0, evictions: 0 };
+    for (const stats of Object.values(types)) {
+      for (const key of Object.keys(total) as (keyof typeof total)[]) {
+        total[key] += stats[key];
+      }
+    }
+    
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify({
+            status: 'success',
+            persistent: this.cache.persistent,
+            freshnessCheck: this.cache.freshnessCheck,
+            total,
+            types,
+          }),
+        },
+      ],
+    };
+  }
+
+  // Invalidate one object (optionally with its subtree) or clear everything
+  private handleCacheInvalidation(params: any) {
+    let result: Record<string, unknown>;
+    if (params?.all === true) {
+      this.cache.clear();
+      result = { status: 'success', cleared: 'all' };
+    } else if (typeof params?.object_id === 'string' && params.object_id) {
+      const removed = this.cache.invalidate(params.object_id, params.subtree === true);
+      result = { status: 'success', object_id: params.object_id, subtree: params.subtree === true, removed };
+    } else {
+      result = { status: 'error', code: 400, message: 'Either object_id or all: true is required' };
+    }
+    
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify(result),
+        },
+      ],
+      ...(result.status === 'error' ? { isError: true } : {}),
+    };
+  }
+
+  // Start a background job loading each page, one after the other, into the cache
+  private handleCacheWarming(params: any) {
+    const pageIds: string[] = Array.isArray(params?.page_ids)
+      ? params.page_ids.filter((id: unknown): id is string => typeof id === 'string' && id.length > 0)
+      : [];
+    if (pageIds.length === 0) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({ status: 'error', code: 400, message: 'page_ids must be a non-empty array of page ids' }),
+          },
+        ],
+        isError: true,
+      };
+    }
+    
+    const job = this.jobManager.start('API-warm-cache', { page_ids: pageIds }, async (job) => {
+      const options: RecursiveExplorationOptions = {
+        maxDepth: params.maxDepth || 5,
+        includeDatabases: true,
+        includeComments: true,
+        includeProperties: true,
+        batchSize: 10,
+        timeoutMs: 0,
+        runInBackground: true,
+        signal: job.signal,
+        progress: job.progress,
+        requestLimiter: new RequestScheduler({ requestsPerSecond: Infinity, maxConcurrent: 15 }),
+      };
+      
+      const pages = [];
+      for (const pageId of pageIds) {
+        const pageData = await this.retrievePageRecursively(pageId, options);
+        pages.push(pageData?.error
+          ? { page_id: pageId, status: 'error', message: pageData.error }
+          : { page_id: pageId, status: 'cached' });
+      }
+      return { status: 'success', pages };
+    });
+    
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify({
+            status: job.status,
+            job_id: job.id,
+            message: `Warming the cache for ${pageIds.length} page(s) in background`,
+            page_ids: pageIds,
+          }),
+        },
+      ],
+    };
+  }
+
+  // List the cached pages and databases as resources, most recently used first
+  private listResources(cursor?: string) {
+    const offset = cursor === undefined ? 0 : Number(cursor);
+    if (!Number.isInteger(offset) || offset < 0) {
+      throw new McpError(ErrorCode.InvalidParams, `Invalid cursor: ${cursor}`);
+    }
+    
+    const resources: Resource[] = [];
+    const seen = new Set<string>();
+    const addResources = (object: any, kinds: NotionResourceKind[]) => {
+      // The same object may be cached under ids with and without dashes
+      if (!object?.id || seen.has(object.id)) return;
+      seen.add(object.id);
+      
+      const title = getNotionObjectTitle(object) || object.id;
+      for (const kind of kinds) {
+        resources.push({
+          uri: resourceUri({ kind, id: object.id }),
+          name: kind === 'pageMarkdown' ? `${title} (Markdown)` : title,
+          mimeType: resourceMimeType(kind),
+          description: object.last_edited_time ? `Last edited ${object.last_edited_time}` : undefined,
+        });
+      }
+    };
+    
+    for (const key of this.cache.pages.keys().reverse()) {
+      addResources(this.cache.pages.peek(key), ['page', 'pageMarkdown']);
+    }
+    for (const key of this.cache.databases.keys().reverse()) {
+      addResources(this.cache.databases.peek(key), ['database']);
+    }
+    
+    const end = offset + RESOURCE_LIST_PAGE_SIZE;
+    return {
+      resources: resources.slice(offset, end),
+      nextCursor: end < resources.length ? String(end) : undefined,
+    };
+  }
+
+  // Read a notion:// resource, using the caches like the equivalent tools do
+  private async readResource(uri: string, signal?: AbortSignal) {
+    const ref = parseResourceUri(uri);
+    if (!ref) {
+      throw new McpError(ErrorCode.InvalidParams, `Unsupported resource URI: ${uri}`);
+    }
+    
+    try {
+      let text: string;
+      if (ref.kind === 'page') {
+        text = JSON.stringify(await this.readNotionObject('API-retrieve-a-page', { page_id: ref.id }, this.cache.pages, signal));
+      } else if (ref.kind === 'database') {
+        text = JSON.stringify(await this.readNotionObject('API-retrieve-a-database', { database_id: ref.id }, this.cache.databases, signal));
+      } else if (ref.kind === 'blockChildren') {
+        const operation = this.findOperation('API-get-block-children');
+        if (!operation) {
+          throw new McpError(ErrorCode.InternalError, 'API-get-block-children method not found.');
+        }
+        const response = await this.handleBlockChildrenParallel(operation, { block_id: ref.id }, { signal });
+        text = (response.content[0] as TextContent).text;
+      } else {
+        const pageData = await this.retrievePageRecursively(ref.id, {
+          maxDepth: 5,
+          includeDatabases: true,
+          includeComments: true,
+          includeProperties: true,
+          batchSize: 10,
+          timeoutMs: 0,
+          signal,
+          requestLimiter: new RequestScheduler({ requestsPerSecond: Infinity, maxConcurrent: 15 }),
+        });
+        throwIfAborted(signal);
+        if (pageData?.error) {
+          throw new McpError(ErrorCode.InternalError, `Failed to read ${uri}: ${pageData.error}`);
+        }
+        text = renderPageToMarkdown(pageData);
+      }
+      
+      return { contents: [{ uri, mimeType: resourceMimeType(ref.kind), text }] };
+    } catch (error) {
+      throw this.resourceError(`Failed to read ${uri}`, error, signal);
+    }
+  }
+
+  // Build a built-in prompt: the Notion content it is about, followed by the task
+  private async getPrompt(name: string, args: Record<string, string> = {}, signal?: AbortSignal) {
+    const prompt = findPrompt(name);
+    if (!prompt) {
+      throw new McpError(ErrorCode.InvalidParams, `Unknown prompt: ${name}`);
+    }
+    const missing = (prompt.arguments || []).filter((argument) => argument.required && !args[argument.name]);
+    if (missing.length > 0) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `Missing required argument(s) for ${name}: ${missing.map((argument) => argument.name).join(', ')}`
+      );
+    }
+    
+    const resources = await Promise.all(prompt.content(args).map((ref) => this.renderPromptContent(ref, signal)));
+    const messages: PromptMessage[] = [
+      ...resources.map((resource): PromptMessage => ({ role: 'user', content: { type: 'resource', resource } })),
+      { role: 'user', content: { type: 'text', text: prompt.instructions(args) } },
+    ];
+    return { description: prompt.description, messages };
+  }
+
+  // Content embedded in prompts: pages rendered like their Markdown resource, databases as their schema
+  private async renderPromptContent(ref: NotionResourceRef, signal?: AbortSignal) {
+    if (ref.kind !== 'database') {
+      const { contents } = await this.readResource(resourceUri(ref), signal);
+      return contents[0];
+    }
+    
+    const uri = resourceUri(ref);
+    try {
+      const database = await this.readNotionObject('API-retrieve-a-database', { database_id: ref.id }, this.cache.databases, signal);
+      return { uri, mimeType: 'text/markdown', text: renderDatabaseSchemaToMarkdown(database) };
+    } catch (error) {
+      throw this.resourceError(`Failed to read ${uri}`, error, signal);
+    }
+  }
+
+  // Watch a resource for edits. The object is read once, which checks that it exists
+  // and records the last_edited_time later polls are compared with.
+  private async subscribeResource(uri: string, signal?: AbortSignal) {
+    const ref = parseResourceUri(uri);
+    if (!ref) {
+      throw new McpError(ErrorCode.InvalidParams, `Unsupported resource URI: ${uri}`);
+    }
+    
+    try {
+      // The cached copy may predate edits made before the subscription, which must not be reported
+      const version = await this.fetchResourceVersion(ref, signal, true);
+      this.subscriptions.subscribe(uri, version);
+      return {};
+    } catch (error) {
+      throw this.resourceError(`Failed to subscribe to ${uri}`, error, signal);
+    }
+  }
+
+  // Error reported to the client when Notion content behind a resource or prompt cannot be retrieved.
+  // Objects that do not exist or are not shared with the integration are reported as invalid parameters.
+  private resourceError(message: string, error: unknown, signal?: AbortSignal): unknown {
+    if (signal?.aborted || error instanceof McpError) {
+      return error;
+    }
+    if (error instanceof HttpClientError) {
+      const code = error.status === 404 || error.status === 400 ? ErrorCode.InvalidParams : ErrorCode.InternalError;
+      return new McpError(code, `${message}: ${error.message}`, { status: error.status });
+    }
+    return new McpError(ErrorCode.InternalError, `${message}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  // last_edited_time of the object behind a resource; block children change with their parent block
+  private async fetchResourceVersion(ref: NotionResourceRef, signal?: AbortSignal, skipCache = false): Promise<string | undefined> {
+    let object: any;
+    if (ref.kind === 'database') {
+      object = await this.readNotionObject('API-retrieve-a-database', { database_id: ref.id }, this.cache.databases, signal, skipCache);
+    } else if (ref.kind === 'blockChildren') {
+      object = await this.readNotionObject('API-retrieve-a-block', { block_id: ref.id }, this.cache.blocks, signal, skipCache);
+    } else {
+      object = await this.readNotionObject('API-retrieve-a-page', { page_id: ref.id }, this.cache.pages, signal, skipCache);
+    }
+    return typeof object?.last_edited_time === 'string' ? object.last_edited_time : undefined;
+  }
+
+  // Retrieve a single Notion object through the cache; with skipCache the cached copy is refreshed
+  private async readNotionObject(
+    operationId: string,
+    params: Record<string, string>,
+    cache: CacheStore,
+    signal?: AbortSignal,
+    skipCache = false
+  ) {
+    const id = Object.values(params)[0];
+    const cached = skipCache ? undefined : cache.get(id);
+    if (cached) {
+      return cached;
+    }
+    
+    const operation = this.findOperation(operationId);
+    if (!operation) {
+      throw new McpError(ErrorCode.InternalError, `${operationId} method not found.`);
+    }
+    const response = await this.executeOperation(operation, params, { signal });
+    cache.set(id, response.data);
+    return response.data;
+  }
+
+  // Public view of a job, without its result
+  private describeJob(job: Job) {
+    return {
+      status: job.status,
+      job_id: job.id,
+      page_id: job.params.page_id,
+      progress: job.progress,
+      created_at: new Date(job.createdAt).toISOString(),
+      started_at: job.startedAt ? new Date(job.startedAt).toISOString() : undefined,
+      finished_at: job.finishedAt ? new Date(job.finishedAt).toISOString() : undefined,
+      message: job.error,
+    };
+  }
+
+  private jobNotFound(jobId: string) {
+    return {
       status: 'not_found',
-      message: `No background processing result found for page ${pageId}`
+      job_id: jobId,
+      message: `No background job found with id ${jobId}; it may have expired`
     };
   }
 
   // Recursively retrieve page content
   private async retrievePageRecursively(pageId: string, options: RecursiveExplorationOptions, currentDepth: number = 0): Promise<any> {
     if (options.runInBackground) {
-      console.log(`Recursive page exploration: ${pageId}, depth: ${currentDepth}/${options.maxDepth || 5}`);
+      this.logger.debug(`Recursive page exploration: ${pageId}, depth: ${currentDepth}/${options.maxDepth || 5}`);
     }
     
     const timeoutPromise = new Promise<never>((_, reject) => {
@@ -522,17 +1438,19 @@ export class MCPProxy {
       // Check maximum depth
       if (currentDepth >= (options.maxDepth || 5)) {
         if (options.runInBackground) {
-          console.log(`Maximum depth reached: ${currentDepth}/${options.maxDepth || 5}`);
+          this.logger.debug(`Maximum depth reached: ${currentDepth}/${options.maxDepth || 5}`);
         }
         return { id: pageId, note: "Maximum recursion depth reached" };
       }
       
-      // 1. Get basic page info (check cache)
+      // 1. Get basic page info (check cache).
+      // With the freshness check the page is always re-read: it is a single request, and its
+      // last_edited_time tells whether cached blocks and properties can still be trusted.
       let pageData: any;
-      if (!options.skipCache && this.pageCache.has(pageId)) {
-        pageData = this.pageCache.get(pageId);
+      if (!options.skipCache && !this.cache.freshnessCheck && this.cache.pages.has(pageId)) {
+        pageData = this.cache.pages.get(pageId);
         if (options.runInBackground) {
-          console.log(`Page cache hit: ${pageId}`);
+          this.logger.debug(`Page cache hit: ${pageId}`);
         }
       } else {
         // Retrieve page info via API call
@@ -542,23 +1460,23 @@ export class MCPProxy {
         }
         
         if (options.runInBackground) {
-          console.log(`Notion API call: ${operation.method.toUpperCase()} ${operation.path} (pageId: ${pageId})`);
+          this.logger.debug(`Notion API call: ${operation.method.toUpperCase()} ${operation.path} (pageId: ${pageId})`);
         }
         
         // Only race with timeout if timeoutMs is set
         let response;
         if (options.timeoutMs && options.timeoutMs > 0) {
           response = await Promise.race([
-            this.httpClient.executeOperation(operation, { page_id: pageId }),
+            this.executeOperation(operation, { page_id: pageId }, options),
             timeoutPromise
           ]) as any;
         } else {
-          response = await this.httpClient.executeOperation(operation, { page_id: pageId });
+          response = await this.executeOperation(operation, { page_id: pageId }, options);
         }
         
         if (response.status !== 200) {
           if (options.runInBackground) {
-            console.error('Error retrieving page information:', response.data);
+            this.logger.error('Error retrieving page information:', response.data);
           }
           return { 
             id: pageId,
@@ -570,8 +1488,9 @@ export class MCPProxy {
         
         pageData = response.data;
         // Only cache successful responses
-        this.pageCache.set(pageId, pageData);
+        this.cache.pages.set(pageId, pageData);
       }
+      options = { ...options, pageEditedAt: pageData.last_edited_time };
       
       // Collection of tasks to be executed in parallel for improved efficiency
       const parallelTasks: Promise<any>[] = [];
@@ -619,16 +1538,17 @@ export class MCPProxy {
       // Add comments (if option enabled)
       if (options.includeComments) {
         const comments = await commentsPromise;
-        if (comments && comments.results && comments.results.length > 0) {
+        if (comments && ((comments.results && comments.results.length > 0) || comments.truncated)) {
           enrichedPageData.comments = comments;
         }
       }
       
       return enrichedPageData;
     } catch (error) {
+      throwIfAborted(options.signal); // Cancelled requests unwind instead of recording partial errors
       if (error instanceof Error && error.message.includes('timed out')) {
         if (options.runInBackground) {
-          console.error(`Timeout occurred while processing page ${pageId} at depth ${currentDepth}`);
+          this.logger.error(`Timeout occurred while processing page ${pageId} at depth ${currentDepth}`);
         }
         return { 
           id: pageId, 
@@ -639,7 +1559,7 @@ export class MCPProxy {
       }
       
       if (options.runInBackground) {
-        console.error(`Error in retrievePageRecursively for page ${pageId}:`, error);
+        this.logger.error(`Error in retrievePageRecursively for page ${pageId}:`, error);
       }
       return { 
         id: pageId, 
@@ -652,12 +1572,12 @@ export class MCPProxy {
   // Recursively retrieve block content with improved parallelism
   private async retrieveBlocksRecursively(blockId: string, options: RecursiveExplorationOptions, currentDepth: number): Promise<any[]> {
     if (options.runInBackground) {
-      console.log(`Recursive block exploration: ${blockId}, depth: ${currentDepth}/${options.maxDepth || 5}`);
+      this.logger.debug(`Recursive block exploration: ${blockId}, depth: ${currentDepth}/${options.maxDepth || 5}`);
     }
     
     if (currentDepth >= (options.maxDepth || 5)) {
       if (options.runInBackground) {
-        console.log(`Maximum depth reached: ${currentDepth}/${options.maxDepth || 5}`);
+        this.logger.debug(`Maximum depth reached: ${currentDepth}/${options.maxDepth || 5}`);
       }
       return [{ note: "Maximum recursion depth reached" }];
     }
@@ -668,13 +1588,27 @@ export class MCPProxy {
         throw new Error('API-get-block-children method not found.');
       }
       
-      const blocksResponse = await this.handleBlockChildrenParallel(operation, { 
-        block_id: blockId,
-        page_size: 100
-      }, options);
-      
-      const blocksData = JSON.parse(blocksResponse.content[0].text);
-      const blocks = blocksData.results || [];
+      let blocks = options.skipCache ? undefined : this.cache.blockChildren.get(blockId, options.pageEditedAt);
+      if (blocks) {
+        if (options.runInBackground) {
+          this.logger.debug(`Block children cache hit: ${blockId}`);
+        }
+      } else {
+        const blocksResponse = await this.handleBlockChildrenParallel(operation, { 
+          block_id: blockId,
+          page_size: 100
+        }, options);
+        
+        const blocksData = JSON.parse((blocksResponse.content[0] as TextContent).text);
+        blocks = (blocksData.results || []) as any[];
+        // Error responses have no results and are not cached
+        if (Array.isArray(blocksData.results)) {
+          this.cache.blockChildren.set(blockId, blocksData.results, options.pageEditedAt);
+        }
+      }
+      this.updateProgress(options, (progress) => {
+        progress.blocksDiscovered += blocks.length;
+      });
       
       if (blocks.length === 0) {
         return [];
@@ -690,7 +1624,7 @@ export class MCPProxy {
         // Process each batch in parallel
         const batchResults = await Promise.all(
           batch.map(async (block: any) => {
-            this.blockCache.set(block.id, block);
+            this.cache.blocks.set(block.id, block);
             
             const enrichedBlock = { ...block };
             
@@ -703,13 +1637,27 @@ export class MCPProxy {
                 this.retrieveBlocksRecursively(block.id, options, currentDepth + 1)
                   .then(childBlocks => { enrichedBlock.children = childBlocks; })
                   .catch(error => {
-                    console.error(`Error retrieving child blocks for ${block.id}:`, error);
+                    throwIfAborted(options.signal);
+                    this.logger.error(`Error retrieving child blocks for ${block.id}:`, error);
                     enrichedBlock.children_error = { message: String(error) };
                     return [];
                   })
               );
             }
             
+            // Comments on blocks with children (if option enabled); blocks without comments are left as they are,
+            // unless their comments could not be retrieved
+            if (block.has_children && options.includeComments && options.includeBlockComments) {
+              blockTasks.push(
+                this.retrieveComments(block.id, options)
+                  .then(comments => {
+                    if (comments.results.length > 0 || comments.truncated) {
+                      enrichedBlock.comments = comments;
+                    }
+                  })
+              );
+            }
+            
             // Process database blocks (if option enabled)
             if (options.includeDatabases && 
                 (block.type === 'child_database' || block.type === 'linked_database')) {
@@ -719,7 +1667,8 @@ export class MCPProxy {
                   this.retrieveDatabase(databaseId, options)
                     .then(database => { enrichedBlock.database = database; })
                     .catch(error => {
-                      console.error(`Error retrieving database ${databaseId}:`, error);
+                      throwIfAborted(options.signal);
+                      this.logger.error(`Error retrieving database ${databaseId}:`, error);
                       enrichedBlock.database_error = { message: String(error) };
                     })
                 );
@@ -733,7 +1682,8 @@ export class MCPProxy {
                 this.retrievePageBasicInfo(pageId, options)
                   .then(pageInfo => { enrichedBlock.page_info = pageInfo; })
                   .catch(error => {
-                    console.error(`Error retrieving page info for ${pageId}:`, error);
+                    throwIfAborted(options.signal);
+                    this.logger.error(`Error retrieving page info for ${pageId}:`, error);
                     enrichedBlock.page_info_error = { message: String(error) };
                   })
               );
@@ -744,6 +1694,9 @@ export class MCPProxy {
               await Promise.all(blockTasks);
             }
             
+            this.updateProgress(options, (progress) => {
+              progress.blocksFetched++;
+            });
             return enrichedBlock;
           })
         );
@@ -753,7 +1706,8 @@ export class MCPProxy {
       
       return enrichedBlocks;
     } catch (error) {
-      console.error(`Error in retrieveBlocksRecursively for block ${blockId}:`, error);
+      throwIfAborted(options.signal);
+      this.logger.error(`Error in retrieveBlocksRecursively for block ${blockId}:`, error);
       return [{ 
         id: blockId, 
         error: error instanceof Error ? error.message : String(error),
@@ -765,8 +1719,8 @@ export class MCPProxy {
   // Lightweight method to fetch only basic page info (without recursive loading)
   private async retrievePageBasicInfo(pageId: string, options: RecursiveExplorationOptions): Promise<any> {
     // Check cache
-    if (!options.skipCache && this.pageCache.has(pageId)) {
-      const cachedData = this.pageCache.get(pageId);
+    if (!options.skipCache && this.cache.pages.has(pageId)) {
+      const cachedData = this.cache.pages.get(pageId);
       return {
         id: cachedData.id,
         title: cachedData.properties?.title || { text: null },
@@ -784,14 +1738,14 @@ export class MCPProxy {
     }
     
     try {
-      const response = await this.httpClient.executeOperation(operation, { page_id: pageId });
+      const response = await this.executeOperation(operation, { page_id: pageId }, options);
       
       if (response.status !== 200) {
         return { id: pageId, error: "Failed to retrieve page", status: response.status };
       }
       
       const pageData = response.data;
-      this.pageCache.set(pageId, pageData);
+      this.cache.pages.set(pageId, pageData);
       
       return {
         id: pageData.id,
@@ -803,106 +1757,116 @@ export class MCPProxy {
         last_edited_time: pageData.last_edited_time
       };
     } catch (error) {
-      console.error(`Error retrieving basic page info ${pageId}:`, error);
+      throwIfAborted(options.signal);
+      this.logger.error(`Error retrieving basic page info ${pageId}:`, error);
       return { id: pageId, error: error instanceof Error ? error.message : String(error) };
     }
   }
 
   // Retrieve database information
   private async retrieveDatabase(databaseId: string, options: RecursiveExplorationOptions): Promise<any> {
-    console.log(`Retrieving database information: ${databaseId}`);
+    this.logger.debug(`Retrieving database information: ${databaseId}`);
     
     // Check cache
-    if (!options.skipCache && this.databaseCache.has(databaseId)) {
-      console.log(`Database cache hit: ${databaseId}`);
-      return this.databaseCache.get(databaseId);
+    if (!options.skipCache && this.cache.databases.has(databaseId)) {
+      this.logger.debug(`Database cache hit: ${databaseId}`);
+      return this.cache.databases.get(databaseId);
     }
     
     // Get database info via API call
     const operation = this.findOperation('API-retrieve-a-database');
     if (!operation) {
-      console.warn('API-retrieve-a-database method not found.');
+      this.logger.warning('API-retrieve-a-database method not found.');
       return { id: databaseId, note: "Database details not available" };
     }
     
     try {
-      console.log(`Notion API call: ${operation.method.toUpperCase()} ${operation.path} (databaseId: ${databaseId})`);
-      const response = await this.httpClient.executeOperation(operation, { database_id: databaseId });
+      this.logger.debug(`Notion API call: ${operation.method.toUpperCase()} ${operation.path} (databaseId: ${databaseId})`);
+      const response = await this.executeOperation(operation, { database_id: databaseId }, options);
       
       if (response.status !== 200) {
-        console.error('Error retrieving database information:', response.data);
+        this.logger.error('Error retrieving database information:', response.data);
         return { id: databaseId, error: "Failed to retrieve database" };
       }
       
       const databaseData = response.data;
-      this.databaseCache.set(databaseId, databaseData);
+      this.cache.databases.set(databaseId, databaseData);
       return databaseData;
     } catch (error) {
-      console.error('Error retrieving database:', error);
+      throwIfAborted(options.signal);
+      this.logger.error('Error retrieving database:', error);
       return { id: databaseId, error: "Failed to retrieve database" };
     }
   }
   
-  // Retrieve comments
+  // Retrieve all comments on a page or block. They stay in `results` in Notion's order,
+  // and `threads` lists their ids by discussion.
   private async retrieveComments(blockId: string, options: RecursiveExplorationOptions): Promise<any> {
     if (options.runInBackground) {
-      console.log(`Retrieving comments: ${blockId}`);
+      this.logger.debug(`Retrieving comments: ${blockId}`);
     }
     
     // Get comments via API call
     const operation = this.findOperation('API-retrieve-a-comment');
     if (!operation) {
       if (options.runInBackground) {
-        console.warn('API-retrieve-a-comment method not found.');
+        this.logger.warning('API-retrieve-a-comment method not found.');
       }
-      return Promise.resolve({ results: [] });
+      return { results: [] };
     }
     
+    if (options.runInBackground) {
+      this.logger.debug(`Notion API call: ${operation.method.toUpperCase()} ${operation.path} (blockId: ${blockId})`);
+    }
+    
+    // Follow every page of comments; a failure keeps the comments already retrieved,
+    // and marks the list as truncated so that it is not mistaken for a complete one
+    const results: any[] = [];
+    let startCursor: string | undefined;
+    let error: string | undefined;
     try {
-      if (options.runInBackground) {
-        console.log(`Notion API call: ${operation.method.toUpperCase()} ${operation.path} (blockId: ${blockId})`);
-      }
-      
-      return this.httpClient.executeOperation(operation, { block_id: blockId })
-        .then(response => {
-          if (response.status !== 200) {
-            if (options.runInBackground) {
-              console.error('Error retrieving comments:', response.data);
-            }
-            return { results: [] };
-          }
-          
-          const commentsData = response.data;
-          
-          // Cache comments
-          if (commentsData.results) {
-            commentsData.results.forEach((comment: any) => {
-              if (comment.id) {
-                this.commentCache.set(comment.id, comment);
-              }
-            });
-          }
-          
-          return commentsData;
-        })
-        .catch(error => {
-          if (options.runInBackground) {
-            console.error('Error retrieving comments:', error);
-          }
-          return { results: [] };
-        });
-    } catch (error) {
-      if (options.runInBackground) {
-        console.error('Error retrieving comments:', error);
-      }
-      return Promise.resolve({ results: [] });
+      do {
+        const response = await this.executeOperation(operation, {
+          block_id: blockId,
+          page_size: 100,
+          ...(startCursor ? { start_cursor: startCursor } : {}),
+        }, options);
+        if (response.status !== 200) {
+          this.logger.error('Error retrieving comments:', response.data);
+          error = `Failed to retrieve comments (status ${response.status})`;
+          break;
+        }
+        results.push(...(response.data.results || []));
+        startCursor = response.data.has_more ? response.data.next_cursor ?? undefined : undefined;
+      } while (startCursor);
+    } catch (err) {
+      throwIfAborted(options.signal);
+      this.logger.error('Error retrieving comments:', err);
+      error = 'Failed to retrieve comments';
     }
+    
+    // Cache comments
+    results.forEach((comment: any) => {
+      if (comment.id) {
+        this.cache.comments.set(comment.id, comment);
+      }
+    });
+    
+    return {
+      object: 'list',
+      results,
+      threads: groupCommentThreads(results).map((thread) => ({
+        discussion_id: thread.discussion_id,
+        comment_ids: thread.comments.map((comment) => comment.id),
+      })),
+      ...(error ? { truncated: true, error } : {}),
+    };
   }
   
   // Enrich page properties with detailed information
   private async enrichPageProperties(pageId: string, properties: any, options: RecursiveExplorationOptions): Promise<any> {
     if (options.runInBackground) {
-      console.log(`Enriching page properties: ${pageId}`);
+      this.logger.debug(`Enriching page properties: ${pageId}`);
     }
     
     const enrichedProperties = { ...properties };
@@ -920,13 +1884,13 @@ export class MCPProxy {
         (async () => {
           try {
             // Check cache
-            if (!options.skipCache && this.propertyCache.has(cacheKey)) {
-              enrichedProperties[propName].details = this.propertyCache.get(cacheKey);
+            if (!options.skipCache && this.cache.properties.has(cacheKey, options.pageEditedAt)) {
+              enrichedProperties[propName].details = this.cache.properties.get(cacheKey, options.pageEditedAt);
             } else {
               // Skip properties with URLs that contain special characters like notion://
               if (propId.includes('notion://') || propId.includes('%3A%2F%2F')) {
                 if (options.runInBackground) {
-                  console.warn(`Skipping property with special URL format: ${propName} (${propId})`);
+                  this.logger.warning(`Skipping property with special URL format: ${propName} (${propId})`);
                 }
                 enrichedProperties[propName].details = { 
                   object: 'property_item', 
@@ -940,17 +1904,18 @@ export class MCPProxy {
               const operation = this.findOperation('API-retrieve-a-page-property');
               if (!operation) {
                 if (options.runInBackground) {
-                  console.warn('API-retrieve-a-page-property method not found.');
+                  this.logger.warning('API-retrieve-a-page-property method not found.');
                 }
                 return;
               }
               
-              const response = await this.httpClient.executeOperation(operation, {
+              const response = await this.retrievePageProperty(operation, {
                 page_id: pageId,
                 property_id: propId
-              }).catch(error => {
+              }, options).catch(error => {
+                throwIfAborted(options.signal);
                 if (options.runInBackground) {
-                  console.warn(`Error retrieving property ${propName} (${propId}): ${error.message}`);
+                  this.logger.warning(`Error retrieving property ${propName} (${propId}): ${error.message}`);
                 }
                 return { 
                   status: error.status || 500,
@@ -964,7 +1929,7 @@ export class MCPProxy {
               
               if (response.status === 200) {
                 enrichedProperties[propName].details = response.data;
-                this.propertyCache.set(cacheKey, response.data);
+                this.cache.properties.set(cacheKey, response.data, options.pageEditedAt);
               } else {
                 enrichedProperties[propName].details = { 
                   object: 'property_item', 
@@ -974,8 +1939,9 @@ export class MCPProxy {
               }
             }
           } catch (error) {
+            throwIfAborted(options.signal);
             if (options.runInBackground) {
-              console.error(`Error retrieving property ${propName}:`, error);
+              this.logger.error(`Error retrieving property ${propName}:`, error);
             }
             enrichedProperties[propName].details = { 
               object: 'property_item', 
@@ -993,6 +1959,48 @@ export class MCPProxy {
     return enrichedProperties;
   }
 
+  // Retrieve a page property item. Relation, rollup, people, title and rich text properties are lists of items
+  // split in pages; these are followed up to MAX_PROPERTY_ITEMS and merged, and `truncated` tells whether items are missing.
+  private async retrievePageProperty(
+    operation: OpenAPIV3.OperationObject & { method: string; path: string },
+    params: any,
+    options?: RecursiveExplorationOptions
+  ): Promise<HttpClientResponse> {
+    const propertyParams = { page_size: 100, ...params };
+    const firstResponse = await this.executeOperation(operation, propertyParams, options);
+    if (firstResponse.status !== 200 || firstResponse.data?.object !== 'list') {
+      return firstResponse;
+    }
+    
+    const results = [...(firstResponse.data.results || [])];
+    let responseData = firstResponse.data;
+    // A failure on a later page keeps the items already retrieved, and the list is marked as truncated
+    while (responseData.has_more && responseData.next_cursor && results.length < MAX_PROPERTY_ITEMS) {
+      try {
+        const response = await this.executeOperation(operation, { ...propertyParams, start_cursor: responseData.next_cursor }, options);
+        if (response.status !== 200) break;
+        responseData = response.data;
+        results.push(...(responseData.results || []));
+      } catch (error) {
+        throwIfAborted(options?.signal);
+        this.logger.warning(`Error retrieving property items of ${params.property_id}:`, error);
+        break;
+      }
+    }
+    
+    const truncated = !!(responseData.has_more && responseData.next_cursor);
+    return {
+      ...firstResponse,
+      data: {
+        ...firstResponse.data,
+        results,
+        has_more: truncated,
+        next_cursor: truncated ? responseData.next_cursor : null,
+        truncated,
+      },
+    };
+  }
+
   // Optimized parallel processing for block children
   private async handleBlockChildrenParallel(
     operation: OpenAPIV3.OperationObject & { method: string; path: string }, 
@@ -1000,15 +2008,15 @@ export class MCPProxy {
     options?: RecursiveExplorationOptions
   ) {
     if (options?.runInBackground) {
-      console.log(`Starting Notion API parallel processing: ${operation.method.toUpperCase()} ${operation.path}`);
+      this.logger.debug(`Starting Notion API parallel processing: ${operation.method.toUpperCase()} ${operation.path}`);
     }
     
     // Get first page
-    const initialResponse = await this.httpClient.executeOperation(operation, params);
+    const initialResponse = await this.executeOperation(operation, params, options);
     
     if (initialResponse.status !== 200) {
       if (options?.runInBackground) {
-        console.error('Response error:', initialResponse.data);
+        this.logger.error('Response error:', initialResponse.data);
       }
       return {
         content: [{ type: 'text', text: JSON.stringify(initialResponse.data) }],
@@ -1023,7 +2031,7 @@ export class MCPProxy {
     const maxParallelRequests = 5; // Limit simultaneous requests
     
     if (options?.runInBackground) {
-      console.log(`Retrieved ${results.length} blocks from first page`);
+      this.logger.debug(`Retrieved ${results.length} blocks from first page`);
     }
     
     // Request subsequent pages in parallel if available
@@ -1033,11 +2041,11 @@ export class MCPProxy {
       
       // Add page request
       pageRequests.push(
-        this.httpClient.executeOperation(operation, nextPageParams)
+        this.executeOperation(operation, nextPageParams, options)
           .then(response => {
             if (response.status === 200) {
               if (options?.runInBackground) {
-                console.log(`Retrieved ${response.data.results?.length || 0} blocks from additional page`);
+                this.logger.debug(`Retrieved ${response.data.results?.length || 0} blocks from additional page`);
               }
               return {
                 results: response.data.results || [],
@@ -1047,8 +2055,9 @@ export class MCPProxy {
             return { results: [], next_cursor: null };
           })
           .catch(error => {
+            throwIfAborted(options?.signal);
             if (options?.runInBackground) {
-              console.error('Error retrieving page:', error);
+              this.logger.error('Error retrieving page:', error);
             }
             return { results: [], next_cursor: null };
           })
@@ -1057,7 +2066,7 @@ export class MCPProxy {
       // Execute parallel requests when batch size reached or no more pages
       if (pageRequests.length >= maxParallelRequests || !nextCursor) {
         if (options?.runInBackground) {
-          console.log(`Processing ${pageRequests.length} pages in parallel...`);
+          this.logger.debug(`Processing ${pageRequests.length} pages in parallel...`);
         }
         const pageResponses = await Promise.all(pageRequests);
         
@@ -1081,7 +2090,7 @@ export class MCPProxy {
     }
     
     if (options?.runInBackground) {
-      console.log(`Retrieved ${results.length} blocks in total`);
+      this.logger.debug(`Retrieved ${results.length} blocks in total`);
     }
     
     // Return merged response
@@ -1092,8 +2101,223 @@ export class MCPProxy {
       next_cursor: null
     };
     
+    return this.jsonResult('API-get-block-children', mergedResponse);
+  }
+
+  // Query a database and follow next_cursor until all matching pages or max_results rows are collected
+  private async handleDatabaseQuery(
+    operation: OpenAPIV3.OperationObject & { method: string; path: string },
+    params: any,
+    signal?: AbortSignal
+  ) {
+    const { max_results, ...queryParams } = params || {};
+    const maxResults = Math.max(1, Number(max_results) || DEFAULT_QUERY_MAX_RESULTS);
+    
+    this.logger.debug(`Notion API call: ${operation.method.toUpperCase()} ${operation.path}`);
+    
+    const results: any[] = [];
+    let startCursor = queryParams.start_cursor;
+    let pageCount = 0;
+    let responseData: any;
+    
+    do {
+      // Never ask for more than is still needed, so next_cursor stays accurate when the cap is hit
+      const pageSize = Math.min(queryParams.page_size || 100, 100, maxResults - results.length);
+      const response = await this.executeOperation(operation, {
+        ...queryParams,
+        page_size: pageSize,
+        ...(startCursor ? { start_cursor: startCursor } : {}),
+      }, { signal });
+      
+      if (response.status !== 200) {
+        this.logger.error('Response error:', response.data);
+        return this.apiErrorResult(response.status, 'Request failed', response.data);
+      }
+      
+      responseData = response.data;
+      pageCount++;
+      results.push(...(responseData.results || []));
+      startCursor = responseData.next_cursor;
+    } while (responseData.has_more && startCursor && results.length < maxResults);
+    
+    this.logger.debug(`Retrieved ${results.length} database rows from ${pageCount} page(s)`);
+    
+    // Query results are full page objects, so they can seed the page cache
+    results.forEach((page: any) => {
+      if (page.object === 'page' && page.id) {
+        this.cache.pages.set(page.id, page);
+      }
+    });
+    
+    // Return merged response; has_more and next_cursor tell whether rows were left out by max_results
+    const mergedResponse = {
+      ...responseData,
+      results,
+      has_more: !!responseData.has_more,
+      next_cursor: responseData.has_more ? responseData.next_cursor : null
+    };
+    
+    return this.jsonResult('API-query-a-database', mergedResponse);
+  }
+
+  // Search pages and databases, collecting results across pages up to max_results
+  private async handleSearch(
+    operation: OpenAPIV3.OperationObject & { method: string; path: string },
+    params: any,
+    signal?: AbortSignal
+  ) {
+    const { max_results, ...searchParams } = params || {};
+    const maxResults = Math.max(1, Number(max_results) || DEFAULT_SEARCH_MAX_RESULTS);
+    
+    this.logger.debug(`Notion API call: ${operation.method.toUpperCase()} ${operation.path}`);
+    
+    const results: any[] = [];
+    let startCursor = searchParams.start_cursor;
+    let responseData: any;
+    
+    do {
+      // Never ask for more than is still needed, so next_cursor stays accurate when the cap is hit
+      const pageSize = Math.min(searchParams.page_size || 100, 100, maxResults - results.length);
+      const response = await this.executeOperation(operation, {
+        ...searchParams,
+        page_size: pageSize,
+        ...(startCursor ? { start_cursor: startCursor } : {}),
+      }, { signal });
+      
+      if (response.status !== 200) {
+        this.logger.error('Response error:', response.data);
+        return this.apiErrorResult(response.status, 'Request failed', response.data);
+      }
+      
+      responseData = response.data;
+      results.push(...(responseData.results || []));
+      startCursor = responseData.next_cursor;
+    } while (responseData.has_more && startCursor && results.length < maxResults);
+    
+    this.logger.debug(`Search returned ${results.length} result(s)`);
+    
+    // Search results are full page and database objects, so they can seed the caches
+    results.forEach((result: any) => {
+      if (result.object === 'page' && result.id) {
+        this.cache.pages.set(result.id, result);
+      } else if (result.object === 'database' && result.id) {
+        this.cache.databases.set(result.id, result);
+      }
+    });
+    
+    const compactResponse = {
+      object: 'list',
+      results: results.map(result => this.compactSearchResult(result)),
+      has_more: !!responseData.has_more,
+      next_cursor: responseData.has_more ? responseData.next_cursor : null
+    };
+    
     return {
-      content: [{ type: 'text', text: JSON.stringify(mergedResponse) }],
+      content: [{ type: 'text', text: JSON.stringify(compactResponse) }],
+    };
+  }
+
+  // Reduce a page or database object to the fields needed to identify it
+  private compactSearchResult(result: any): any {
+    const parent = result.parent || {};
+    return {
+      id: result.id,
+      object: result.object,
+      title: getNotionObjectTitle(result),
+      url: result.url,
+      parent: parent.type === 'workspace' ? { type: 'workspace' } : { type: parent.type, id: parent[parent.type] },
+      last_edited_time: result.last_edited_time
+    };
+  }
+
+  // Publish the converter's return schemas of operations returning JSON objects as tool output schemas
+  private collectOutputSchemas(): void {
+    for (const [toolName, def] of Object.entries(this.tools)) {
+      for (const method of def.methods) {
+        const truncatedToolName = this.truncateToolName(`${toolName}-${method.name}`);
+        const outputSchema = toOutputSchema(method.returnSchema);
+        if (outputSchema && !RESHAPED_RESULT_TOOLS.has(truncatedToolName)) {
+          this.outputSchemas[truncatedToolName] = outputSchema;
+        }
+      }
+    }
+  }
+
+  // Tool result carrying JSON data as text, and as structured content when the tool has an output schema
+  private jsonResult(toolName: string, data: any): CallToolResult {
+    return {
+      content: [{ type: 'text', text: JSON.stringify(data) }],
+      ...(this.outputSchemas[toolName] && isStructuredContent(data) ? { structuredContent: data } : {}),
+    };
+  }
+
+  // Merge proxy-handled parameters into a tool's input schema
+  private withProxyParameters(toolName: string, inputSchema: IJsonSchema & { type: 'object' }): IJsonSchema & { type: 'object' } {
+    const extraParameters = PROXY_TOOL_PARAMETERS[toolName];
+    if (!extraParameters) {
+      return inputSchema;
+    }
+    return {
+      ...inputSchema,
+      properties: { ...inputSchema.properties, ...extraParameters },
+    };
+  }
+
+  // Add the output shaping parameters, accepted by every tool, to a tool's input schema
+  private withShapingParameters(tool: Tool): Tool {
+    return {
+      ...tool,
+      inputSchema: { ...tool.inputSchema, properties: { ...tool.inputSchema.properties, ...SHAPING_PARAMETERS } },
+    };
+  }
+
+  // Execute an API operation, honoring the exploration's parallel request limit when there is one
+  private executeOperation(
+    operation: OpenAPIV3.OperationObject & { method: string; path: string },
+    params?: Record<string, any>,
+    options?: RecursiveExplorationOptions
+  ): Promise<HttpClientResponse> {
+    const signal = options?.signal;
+    const execute = () => {
+      if (options) {
+        this.updateProgress(options, (progress) => {
+          progress.requestsMade++;
+        });
+      }
+      return this.httpClient.executeOperation(operation, params, { signal });
+    };
+    // Aborting removes the request from the exploration's queue as well as from the client's
+    return options?.requestLimiter ? options.requestLimiter.schedule(execute, signal) : execute();
+  }
+
+  // Update the exploration's progress counters, if tracked, and notify the listener
+  private updateProgress(options: RecursiveExplorationOptions, update: (progress: JobProgress) => void): void {
+    if (!options.progress) return;
+    update(options.progress);
+    options.onProgress?.(options.progress);
+  }
+
+  // Send notifications/progress for a request, throttled unless forced (e.g. for the final update).
+  // Progress counts fetched blocks; the total grows as more blocks are discovered.
+  private createProgressNotifier(
+    progressToken: ProgressToken,
+    sendNotification: (notification: ServerNotification) => Promise<void>
+  ): ProgressNotifier {
+    let lastSentAt = 0;
+    return (progress, force = false) => {
+      const now = Date.now();
+      if (!force && now - lastSentAt < PROGRESS_NOTIFICATION_INTERVAL_MS) return;
+      lastSentAt = now;
+      
+      sendNotification({
+        method: 'notifications/progress',
+        params: {
+          progressToken,
+          progress: progress.blocksFetched,
+          total: progress.blocksDiscovered,
+          message: `${progress.blocksFetched}/${progress.blocksDiscovered} blocks fetched, ${progress.requestsMade} requests`,
+        },
+      }).catch((error) => this.logger.debug('Failed to send progress notification:', error));
     };
   }
 
@@ -1101,6 +2325,86 @@ export class MCPProxy {
     return this.openApiLookup[operationId] ?? null
   }
 
+  // Headers sent to Notion: those of OPENAPI_MCP_HEADERS, with the session's token taking over authorization
+  private buildHeaders(notionToken?: string): Record<string, string> {
+    const headers = this.parseHeadersFromEnv()
+    if (notionToken) {
+      for (const key of Object.keys(headers)) {
+        if (key.toLowerCase() === 'authorization') delete headers[key]
+      }
+      headers.Authorization = `Bearer ${notionToken}`
+    }
+
+    for (const [key, value] of Object.entries(headers)) {
+      if (key.toLowerCase() === 'authorization' && typeof value === 'string') {
+        const token = parseBearerToken(value) ?? value
+        this.secrets.push(token)
+        this.logger.addSecret(token)
+      }
+    }
+    return headers
+  }
+
+  // Run a tool call or resource read, removing the session's credentials from its result and from any error it throws.
+  // Results hold workspace content, so only the exact credentials are removed from them.
+  private async withSecretsRedacted<T>(run: () => Promise<T>): Promise<T> {
+    try {
+      const result: any = await run()
+      // Tool results carry `content`, resource reads `contents`
+      for (const field of ['content', 'contents']) {
+        if (Array.isArray(result?.[field]) && this.secrets.length > 0) {
+          result[field] = result[field].map((item: any) =>
+            typeof item?.text === 'string' ? { ...item, text: redactSecrets(item.text, this.secrets, { patterns: false }) } : item,
+          )
+        }
+      }
+      if (isStructuredContent(result?.structuredContent) && this.secrets.length > 0) {
+        result.structuredContent = JSON.parse(redactSecrets(JSON.stringify(result.structuredContent), this.secrets, { patterns: false }))
+      }
+      return result
+    } catch (error) {
+      if (error instanceof Error) {
+        error.message = redactSecrets(error.message, this.secrets)
+      }
+      throw error
+    }
+  }
+
+  // Run a tool call without its shaping parameters, then project and compact its JSON result as they request.
+  // The one-pager shapes page data itself, before applying its output budget; errors are returned whole.
+  // Structured content is shaped too, since output schemas leave every property optional, but keeps its rich text
+  // uncollapsed so that it still matches the schema's types.
+  private async withOutputShaping(
+    name: string,
+    args: Record<string, any> | undefined,
+    run: (params: Record<string, any>, shaping?: ShapingOptions) => Promise<any>
+  ): Promise<any> {
+    const [shaping, params] = extractShapingOptions(args)
+    const result = await run(params, shaping)
+    if (!shaping || name === 'API-get-one-pager' || result?.isError || result?.content?.length !== 1) {
+      return result
+    }
+
+    let data = result.structuredContent
+    if (data === undefined) {
+      try {
+        data = JSON.parse(result.content[0].text)
+      } catch {
+        // Markdown and other text results are returned as they are
+        return result
+      }
+    }
+    if (typeof data !== 'object' || data === null || data.status === 'error') {
+      return result
+    }
+    const shaped = shapeOutput(data, shaping)
+    return {
+      ...result,
+      content: [{ type: 'text', text: JSON.stringify(shaped) }],
+      ...(result.structuredContent !== undefined ? { structuredContent: shaping.compact ? shapeOutput(data, shaping, true) : shaped } : {}),
+    }
+  }
+
   private parseHeadersFromEnv(): Record<string, string> {
     const headersJson = process.env.OPENAPI_MCP_HEADERS
     if (!headersJson) {
@@ -1110,12 +2414,12 @@ export class MCPProxy {
     try {
       const headers = JSON.parse(headersJson)
       if (typeof headers !== 'object' || headers === null) {
-        console.warn('OPENAPI_MCP_HEADERS environment variable must be a JSON object, got:', typeof headers)
+        this.logger.warning('OPENAPI_MCP_HEADERS environment variable must be a JSON object, got:', typeof headers)
         return {}
       }
       return headers
     } catch (error) {
-      console.warn('Failed to parse OPENAPI_MCP_HEADERS environment variable:', error)
+      this.logger.warning('Failed to parse OPENAPI_MCP_HEADERS environment variable:', error)
       return {}
     }
   }
@@ -1140,15 +2444,21 @@ export class MCPProxy {
   }
 
   async connect(transport: Transport) {
-    console.log('One Pager Assistant - MCP server started')
-    console.log('Providing APIs: retrieve-a-page, get-block-children, retrieve-a-block')
-    console.log('New feature: get-one-pager - recursively explore pages automatically')
-    console.log('Parallel processing optimization enabled')
+    this.logger.info('One Pager Assistant - MCP server started')
+    this.logger.debug('Providing APIs: retrieve-a-page, get-block-children, retrieve-a-block')
+    this.logger.debug('New feature: get-one-pager - recursively explore pages automatically')
+    this.logger.debug('Parallel processing optimization enabled')
     
     // The SDK will handle stdio communication
     await this.server.connect(transport)
   }
 
+  async close() {
+    await this.server.close()
+    // Entries of a persistent cache are written in batches; finish those still queued
+    await this.cache.flush()
+  }
+
   getServer() {
     return this.server
   }
@@ -0,0 +1,87 @@
+import type { ResourceTemplate } from '@modelcontextprotocol/sdk/types.js'
+
+/** Kinds of Notion content exposed as MCP resources */
+export type NotionResourceKind = 'page' | 'pageMarkdown' | 'database' | 'blockChildren'
+
+export type NotionResourceRef = {
+  kind: NotionResourceKind
+  /** Notion object id, as given in the URI */
+  id: string
+}
+
+/** URI templates advertised through resources/templates/list */
+export const RESOURCE_TEMPLATES: ResourceTemplate[] = [
+  {
+    uriTemplate: 'notion://page/{id}',
+    name: 'Notion page',
+    description: 'Page object with its properties, as returned by the Notion API',
+    mimeType: 'application/json',
+  },
+  {
+    uriTemplate: 'notion://page/{id}/markdown',
+    name: 'Notion page as Markdown',
+    description: 'Page content, including nested blocks, rendered as Markdown',
+    mimeType: 'text/markdown',
+  },
+  {
+    uriTemplate: 'notion://database/{id}',
+    name: 'Notion database',
+    description: 'Database object with its schema, as returned by the Notion API',
+    mimeType: 'application/json',
+  },
+  {
+    uriTemplate: 'notion://block/{id}/children',
+    name: 'Notion block children',
+    description: 'All child blocks of a page or block, as returned by the Notion API',
+    mimeType: 'application/json',
+  },
+]
+
+const RESOURCE_URI_PATTERN = /^notion:\/\/(page|database|block)\/([^/?#]+)(?:\/(markdown|children))?$/
+
+/**
+ * Parse a `notion://` resource URI
+ * @returns The referenced content, or undefined if the URI is not a supported Notion resource
+ */
+export function parseResourceUri(uri: string): NotionResourceRef | undefined {
+  const match = RESOURCE_URI_PATTERN.exec(uri)
+  if (!match) return undefined
+
+  const [, type, encodedId, suffix] = match
+  let id: string
+  try {
+    id = decodeURIComponent(encodedId)
+  } catch {
+    return undefined
+  }
+
+  if (type === 'page' && !suffix) return { kind: 'page', id }
+  if (type === 'page' && suffix === 'markdown') return { kind: 'pageMarkdown', id }
+  if (type === 'database' && !suffix) return { kind: 'database', id }
+  if (type === 'block' && suffix === 'children') return { kind: 'blockChildren', id }
+  return undefined
+}
+
+/**
+ * Build the URI of a Notion resource
+ */
+export function resourceUri(ref: NotionResourceRef): string {
+  const id = encodeURIComponent(ref.id)
+  switch (ref.kind) {
+    case 'page':
+      return `notion://page/${id}`
+    case 'pageMarkdown':
+      return `notion://page/${id}/markdown`
+    case 'database':
+      return `notion://database/${id}`
+    case 'blockChildren':
+      return `notion://block/${id}/children`
+  }
+}
+
+/**
+ * MIME type of a resource's content
+ */
+export function resourceMimeType(kind: NotionResourceKind): string {
+  return kind === 'pageMarkdown' ? 'text/markdown' : 'application/json'
+}
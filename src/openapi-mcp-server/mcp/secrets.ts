@@ -0,0 +1,45 @@
+import { createHash } from 'node:crypto'
+
+const REDACTED = '[REDACTED]'
+
+// Credentials recognizable by their format: bearer credentials and Notion integration tokens
+const SECRET_PATTERNS = [/\bBearer\s+[\w.~+/=-]+/gi, /\b(?:secret|ntn)_[A-Za-z0-9]{10,}/g]
+
+/**
+ * Replace credentials in a text with a placeholder
+ * @param text Text that may contain credentials, e.g. a log message or an error payload
+ * @param secrets Exact values to remove
+ * @param options.patterns Also remove values that look like credentials (default: true); disable for
+ *   workspace content, which may legitimately mention tokens
+ * @returns The text without credentials
+ */
+export function redactSecrets(text: string, secrets: Iterable<string> = [], options: { patterns?: boolean } = {}): string {
+  let redacted = text
+  for (const secret of secrets) {
+    if (secret) {
+      redacted = redacted.split(secret).join(REDACTED)
+    }
+  }
+  if (options.patterns === false) return redacted
+
+  for (const pattern of SECRET_PATTERNS) {
+    redacted = redacted.replace(pattern, (match) => (match.toLowerCase().startsWith('bearer') ? `Bearer ${REDACTED}` : REDACTED))
+  }
+  return redacted
+}
+
+/**
+ * Stable identifier of a credential that reveals nothing about it, used to key
+ * state per token (schedulers, cache directories, session ownership)
+ */
+export function fingerprintSecret(secret: string): string {
+  return createHash('sha256').update(secret).digest('hex').slice(0, 16)
+}
+
+/**
+ * Extract the credential of an Authorization header value, e.g. the token of `Bearer <token>`
+ */
+export function parseBearerToken(authorization: string | undefined): string | undefined {
+  const match = authorization?.match(/^\s*Bearer\s+(\S+)\s*$/i)
+  return match?.[1]
+}
@@ -0,0 +1,189 @@
+import { HttpClientError, parseRetryAfter } from '../client/http-client'
+import type { Logger } from './logger'
+import { NotionResourceRef, parseResourceUri } from './resources'
+
+export type SubscriptionPollerConfig = {
+  /** Interval between two polls of the subscribed objects, in milliseconds (default: 60000) */
+  intervalMs?: number
+  /** Upper bound of the polling interval while the integration is rate limited, in milliseconds (default: 15 minutes) */
+  maxBackoffMs?: number
+}
+
+/** Returns the current `last_edited_time` of the object behind a resource */
+export type VersionFetcher = (ref: NotionResourceRef, signal: AbortSignal) => Promise<string | undefined>
+
+// A Notion object watched on behalf of one or more subscribed URIs
+type PollTarget = {
+  ref: NotionResourceRef
+  uris: Set<string>
+  version?: string
+}
+
+/**
+ * Polls the Notion objects behind subscribed resources and reports the URIs whose
+ * object's `last_edited_time` changed.
+ *
+ * URIs for the same object (e.g. a page and its Markdown rendering) share one
+ * request per poll. Objects are polled one after the other so that polling never
+ * competes with tool calls for more than one request slot, and the interval
+ * doubles, up to a limit, while Notion answers with 429.
+ */
+export class SubscriptionPoller {
+  private readonly intervalMs: number
+  private readonly maxBackoffMs: number
+  private targets: Map<string, PollTarget> = new Map()
+  private timer: NodeJS.Timeout | null = null
+  private controller = new AbortController()
+  private polling = false
+  private backoffs = 0
+
+  /**
+   * @param fetchVersion Reads the current version of an object; requests should go through the shared rate limiter
+   * @param notify Sends the update notification for a URI
+   */
+  constructor(
+    private readonly fetchVersion: VersionFetcher,
+    private readonly notify: (uri: string) => Promise<void>,
+    config: SubscriptionPollerConfig = {},
+    private readonly logger?: Logger,
+  ) {
+    this.intervalMs = Math.max(1000, config.intervalMs ?? 60 * 1000)
+    this.maxBackoffMs = Math.max(this.intervalMs, config.maxBackoffMs ?? 15 * 60 * 1000)
+  }
+
+  /**
+   * Start watching the object behind a URI
+   * @param uri Resource URI, e.g. notion://page/{id}
+   * @param version Current `last_edited_time` of the object, used as the baseline for change detection
+   */
+  subscribe(uri: string, version?: string): void {
+    const ref = parseResourceUri(uri)
+    if (!ref) {
+      throw new Error(`Unsupported resource URI: ${uri}`)
+    }
+
+    const key = targetKey(ref)
+    let target = this.targets.get(key)
+    if (!target) {
+      target = { ref, uris: new Set(), version }
+      this.targets.set(key, target)
+    }
+    target.uris.add(uri)
+    target.version ??= version
+
+    if (!this.timer && !this.polling) {
+      this.scheduleNext(this.intervalMs)
+    }
+  }
+
+  unsubscribe(uri: string): void {
+    const ref = parseResourceUri(uri)
+    if (!ref) return
+
+    const key = targetKey(ref)
+    const target = this.targets.get(key)
+    target?.uris.delete(uri)
+    if (target && target.uris.size === 0) {
+      this.targets.delete(key)
+    }
+    if (this.targets.size === 0) {
+      this.clearTimer()
+    }
+  }
+
+  /**
+   * Drop every subscription and abort the poll in progress, e.g. when the session ends
+   */
+  stop(): void {
+    this.targets.clear()
+    this.clearTimer()
+    this.controller.abort()
+    this.controller = new AbortController()
+  }
+
+  /** Subscribed URIs */
+  get uris(): string[] {
+    return [...this.targets.values()].flatMap((target) => [...target.uris])
+  }
+
+  /**
+   * Poll every watched object once and notify the URIs of those that changed
+   */
+  async poll(): Promise<void> {
+    if (this.polling) return
+    this.clearTimer()
+    this.polling = true
+    const { signal } = this.controller
+    let retryAfterMs: number | undefined
+    let rateLimited = false
+
+    try {
+      for (const target of [...this.targets.values()]) {
+        if (signal.aborted) break
+        try {
+          const version = await this.fetchVersion(target.ref, signal)
+          if (version === undefined) continue
+          if (target.version !== undefined && version !== target.version) {
+            await this.notifyAll(target)
+          }
+          target.version = version
+        } catch (error) {
+          if (signal.aborted) break
+          if (error instanceof HttpClientError && error.status === 429) {
+            rateLimited = true
+            retryAfterMs = parseRetryAfter(error.headers?.get('retry-after') ?? null) ?? undefined
+            break
+          }
+          this.logger?.warning(`Failed to poll ${[...target.uris].join(', ')}:`, error)
+        }
+      }
+    } finally {
+      this.polling = false
+    }
+
+    this.backoffs = rateLimited ? this.backoffs + 1 : 0
+    // After stop() there is nothing left to poll, unless new subscriptions came in meanwhile
+    if (this.targets.size > 0) {
+      this.scheduleNext(this.nextDelay(retryAfterMs))
+    }
+  }
+
+  private async notifyAll(target: PollTarget): Promise<void> {
+    for (const uri of target.uris) {
+      try {
+        await this.notify(uri)
+      } catch (error) {
+        this.logger?.warning(`Failed to send the update notification for ${uri}:`, error)
+      }
+    }
+  }
+
+  // Regular interval, doubled for each consecutive rate-limited poll and never shorter than Retry-After
+  private nextDelay(retryAfterMs?: number): number {
+    if (this.backoffs === 0) return this.intervalMs
+    const backoff = this.intervalMs * 2 ** this.backoffs
+    return Math.min(this.maxBackoffMs, Math.max(backoff, retryAfterMs ?? 0))
+  }
+
+  private scheduleNext(delayMs: number): void {
+    this.clearTimer()
+    this.timer = setTimeout(() => {
+      this.poll().catch((error) => this.logger?.error('Subscription polling failed:', error))
+    }, delayMs)
+    // Polling alone must not keep the process alive
+    this.timer.unref?.()
+  }
+
+  private clearTimer(): void {
+    if (this.timer) {
+      clearTimeout(this.timer)
+      this.timer = null
+    }
+  }
+}
+
+// Resources backed by the same Notion object share a target; ids are compared without dashes
+function targetKey(ref: NotionResourceRef): string {
+  const object = ref.kind === 'pageMarkdown' ? 'page' : ref.kind
+  return `${object}:${ref.id.replace(/-/g, '').toLowerCase()}`
+}
@@ -0,0 +1,70 @@
+import { OpenAPIV3 } from 'openapi-types'
+import { describe, it, expect } from 'vitest'
+import { isIdempotentOperation, isReadOnlyOperation, operationAnnotations, ReadOnlyOperationError } from '../read-only'
+
+describe('Read-only Operation Detection', () => {
+  const operation = (operationId: string, method: string): OpenAPIV3.OperationObject & { method: string } => ({
+    operationId,
+    method,
+    responses: {
+      '200': {
+        description: 'Success',
+      },
+    },
+  })
+
+  it('allows safe HTTP methods', () => {
+    expect(isReadOnlyOperation(operation('retrieve-a-page', 'get'))).toBe(true)
+    expect(isReadOnlyOperation(operation('retrieve-a-page', 'GET'))).toBe(true)
+    expect(isReadOnlyOperation(operation('check', 'head'))).toBe(true)
+  })
+
+  it('allows allowlisted read-only POST operations', () => {
+    expect(isReadOnlyOperation(operation('post-search', 'post'))).toBe(true)
+    expect(isReadOnlyOperation(operation('query-a-database', 'post'))).toBe(true)
+  })
+
+  it('rejects mutating operations', () => {
+    expect(isReadOnlyOperation(operation('post-page', 'post'))).toBe(false)
+    expect(isReadOnlyOperation(operation('patch-page', 'patch'))).toBe(false)
+    expect(isReadOnlyOperation(operation('update-a-block', 'put'))).toBe(false)
+    expect(isReadOnlyOperation(operation('delete-a-block', 'delete'))).toBe(false)
+  })
+
+  it('treats read-only and idempotent methods as safe to repeat', () => {
+    expect(isIdempotentOperation(operation('retrieve-a-page', 'get'))).toBe(true)
+    expect(isIdempotentOperation(operation('query-a-database', 'post'))).toBe(true)
+    expect(isIdempotentOperation(operation('update-a-block', 'put'))).toBe(true)
+    expect(isIdempotentOperation(operation('delete-a-block', 'delete'))).toBe(true)
+    expect(isIdempotentOperation(operation('post-page', 'post'))).toBe(false)
+    expect(isIdempotentOperation(operation('patch-page', 'patch'))).toBe(false)
+  })
+
+  it('describes the blocked operation in the error', () => {
+    const error = new ReadOnlyOperationError('delete-a-block', 'delete')
+
+    expect(error.name).toBe('ReadOnlyOperationError')
+    expect(error.message).toBe('Operation delete-a-block (DELETE) is not allowed: this server is read-only')
+  })
+
+  it('derives tool annotations from the HTTP method and operation metadata', () => {
+    expect(operationAnnotations({ ...operation('query-a-database', 'post'), summary: 'Query a database' })).toEqual({
+      title: 'Query a database',
+      readOnlyHint: true,
+      destructiveHint: false,
+      idempotentHint: true,
+      openWorldHint: true,
+    })
+    expect(operationAnnotations(operation('retrieve-a-page', 'get')).title).toBe('Retrieve a page')
+    expect(operationAnnotations(operation('delete-a-block', 'delete'))).toMatchObject({
+      readOnlyHint: false,
+      destructiveHint: true,
+      idempotentHint: true,
+    })
+    expect(operationAnnotations(operation('post-page', 'post'))).toMatchObject({
+      readOnlyHint: false,
+      destructiveHint: false,
+      idempotentHint: false,
+    })
+  })
+})
@@ -0,0 +1,72 @@
+import type { ToolAnnotations } from '@modelcontextprotocol/sdk/types.js'
+import { OpenAPIV3 } from 'openapi-types'
+
+/**
+ * POST operations that only read data and are therefore allowed in read-only mode.
+ * Notion uses POST for these so that filters and sorts can be sent as a JSON body.
+ */
+export const READ_ONLY_POST_OPERATIONS: readonly string[] = ['post-search', 'query-a-database']
+
+// HTTP methods that never mutate data
+const SAFE_METHODS = ['get', 'head', 'options']
+
+// HTTP methods that may mutate data but can be repeated without additional effect
+const IDEMPOTENT_METHODS = ['put', 'delete']
+
+/**
+ * Error thrown when a mutating operation is invoked while read-only mode is enforced
+ */
+export class ReadOnlyOperationError extends Error {
+  constructor(
+    public operationId: string | undefined,
+    public method: string,
+  ) {
+    super(`Operation ${operationId ?? 'unknown'} (${(method ?? '').toUpperCase()}) is not allowed: this server is read-only`)
+    this.name = 'ReadOnlyOperationError'
+  }
+}
+
+/**
+ * Checks whether an OpenAPI operation can be executed without mutating data
+ * @param operation The OpenAPI operation object along with its HTTP method
+ * @returns true for safe HTTP methods and allowlisted read-only POST operations
+ */
+export function isReadOnlyOperation(operation: OpenAPIV3.OperationObject & { method: string }): boolean {
+  const method = (operation.method ?? '').toLowerCase()
+  if (SAFE_METHODS.includes(method)) return true
+
+  return method === 'post' && !!operation.operationId && READ_ONLY_POST_OPERATIONS.includes(operation.operationId)
+}
+
+/**
+ * Checks whether an OpenAPI operation can safely be repeated, e.g. when retrying a failed request
+ * @param operation The OpenAPI operation object along with its HTTP method
+ * @returns true for read-only operations and idempotent HTTP methods
+ */
+export function isIdempotentOperation(operation: OpenAPIV3.OperationObject & { method: string }): boolean {
+  return isReadOnlyOperation(operation) || IDEMPOTENT_METHODS.includes((operation.method ?? '').toLowerCase())
+}
+
+/**
+ * Derives the MCP tool annotations of an OpenAPI operation from its HTTP method and metadata
+ * @param operation The OpenAPI operation object along with its HTTP method
+ * @returns Annotations titled after the operation summary, or its operationId when there is none
+ */
+export function operationAnnotations(operation: OpenAPIV3.OperationObject & { method: string }): ToolAnnotations {
+  const readOnly = isReadOnlyOperation(operation)
+  const title = operation.summary || humanizeOperationId(operation.operationId)
+  return {
+    ...(title ? { title } : {}),
+    readOnlyHint: readOnly,
+    // Creating objects (POST) adds data without overwriting any
+    destructiveHint: !readOnly && (operation.method ?? '').toLowerCase() !== 'post',
+    idempotentHint: isIdempotentOperation(operation),
+    openWorldHint: true,
+  }
+}
+
+// e.g. retrieve-a-page -> Retrieve a page
+function humanizeOperationId(operationId?: string): string | undefined {
+  const words = operationId?.split(/[-_\s]+/).filter(Boolean).join(' ')
+  return words ? words.charAt(0).toUpperCase() + words.slice(1) : undefined
+}
@@ -0,0 +1,164 @@
+import { parseArgs } from 'node:util'
+
+import { DEFAULT_CACHE_CONFIG } from './openapi-mcp-server/mcp/notion-cache'
+import { isLoggingLevel, LOG_LEVELS } from './openapi-mcp-server/mcp/logger'
+import type { MCPProxyOptions } from './openapi-mcp-server/mcp/proxy'
+
+// Numeric settings: CLI flag name and the environment variable used as a fallback
+const NUMERIC_OPTIONS = {
+  'rate-limit': 'NOTION_MCP_RATE_LIMIT',
+  'rate-limit-burst': 'NOTION_MCP_RATE_LIMIT_BURST',
+  'max-concurrency': 'NOTION_MCP_MAX_CONCURRENCY',
+  'max-retries': 'NOTION_MCP_MAX_RETRIES',
+  'cache-ttl': 'NOTION_MCP_CACHE_TTL',
+  'poll-interval': 'NOTION_MCP_POLL_INTERVAL',
+} as const
+
+type NumericOption = keyof typeof NUMERIC_OPTIONS
+
+export const TRANSPORTS = ['stdio', 'http'] as const
+
+export type TransportName = (typeof TRANSPORTS)[number]
+
+export type TransportOptions = {
+  /** stdio, or HTTP serving both Streamable HTTP and the legacy SSE transport */
+  transport: TransportName
+  /** Address the HTTP server binds to */
+  host: string
+  /** Port the HTTP server listens on; 0 picks a free port */
+  port: number
+  /** Hostnames the HTTP server accepts in Host and Origin headers */
+  allowedHosts?: string[]
+  /** Maximum number of open HTTP sessions */
+  maxSessions?: number
+  /** Time after which an HTTP session without open requests is closed, in milliseconds */
+  sessionIdleTimeoutMs?: number
+}
+
+/**
+ * Build the server options from CLI flags, falling back to environment variables
+ * @param args Command line arguments, without the node executable and script path
+ * @param env Environment variables
+ * @returns Options for MCPProxy; unset values keep their defaults
+ */
+export function parseServerOptions(args: string[], env: NodeJS.ProcessEnv = process.env): MCPProxyOptions {
+  const { values } = parseArgs({
+    args,
+    options: {
+      ...Object.fromEntries(Object.keys(NUMERIC_OPTIONS).map((name) => [name, { type: 'string' as const }])),
+      'log-level': { type: 'string' },
+      'cache-freshness-check': { type: 'string' },
+      'cache-dir': { type: 'string' },
+    },
+    strict: false,
+    allowPositionals: true,
+  })
+
+  const numeric = (name: NumericOption): number | undefined => {
+    const raw = values[name] ?? env[NUMERIC_OPTIONS[name]]
+    if (raw === undefined || raw === true || raw === '') return undefined
+
+    const value = Number(raw)
+    if (!Number.isFinite(value) || value < 0) {
+      throw new Error(`Invalid value for --${name} (${NUMERIC_OPTIONS[name]}): ${raw}`)
+    }
+    return value
+  }
+
+  const logLevel = values['log-level'] ?? env.NOTION_MCP_LOG_LEVEL
+  if (logLevel !== undefined && !isLoggingLevel(logLevel)) {
+    throw new Error(`Invalid value for --log-level (NOTION_MCP_LOG_LEVEL): ${logLevel}. Expected one of: ${LOG_LEVELS.join(', ')}`)
+  }
+
+  const freshnessCheck = values['cache-freshness-check'] ?? env.NOTION_MCP_CACHE_FRESHNESS_CHECK
+  if (freshnessCheck !== undefined && freshnessCheck !== 'true' && freshnessCheck !== 'false') {
+    throw new Error(`Invalid value for --cache-freshness-check (NOTION_MCP_CACHE_FRESHNESS_CHECK): ${freshnessCheck}. Expected true or false`)
+  }
+
+  // The TTL is given in seconds and applies to every cache type
+  const cacheTtl = numeric('cache-ttl')
+  const cacheTypeOverrides =
+    cacheTtl !== undefined
+      ? Object.fromEntries(Object.keys(DEFAULT_CACHE_CONFIG).map((type) => [type, { ttlMs: cacheTtl * 1000 }]))
+      : {}
+
+  const pollInterval = numeric('poll-interval')
+
+  return {
+    logLevel,
+    rateLimit: {
+      requestsPerSecond: numeric('rate-limit'),
+      burst: numeric('rate-limit-burst'),
+      maxConcurrent: numeric('max-concurrency'),
+    },
+    retry: {
+      maxRetries: numeric('max-retries'),
+    },
+    cache: {
+      ...cacheTypeOverrides,
+      freshnessCheck: freshnessCheck === undefined ? undefined : freshnessCheck === 'true',
+      path: (values['cache-dir'] as string | undefined) || env.NOTION_MCP_CACHE_DIR || undefined,
+    },
+    subscriptions: {
+      // Given in seconds, like the cache TTL
+      intervalMs: pollInterval !== undefined ? pollInterval * 1000 : undefined,
+    },
+  }
+}
+
+/**
+ * Select the transport the server is reached through, from CLI flags falling back to environment variables
+ * @param args Command line arguments, without the node executable and script path
+ * @param env Environment variables
+ * @returns Transport settings; the HTTP server only listens on the loopback interface unless a host is given
+ */
+export function parseTransportOptions(args: string[], env: NodeJS.ProcessEnv = process.env): TransportOptions {
+  const { values } = parseArgs({
+    args,
+    options: {
+      transport: { type: 'string' },
+      host: { type: 'string' },
+      port: { type: 'string' },
+      'allowed-hosts': { type: 'string' },
+      'max-sessions': { type: 'string' },
+      'session-idle-timeout': { type: 'string' },
+    },
+    strict: false,
+    allowPositionals: true,
+  })
+
+  const transport = (values.transport as string | undefined) || env.NOTION_MCP_TRANSPORT || 'stdio'
+  if (!(TRANSPORTS as readonly string[]).includes(transport)) {
+    throw new Error(`Invalid value for --transport (NOTION_MCP_TRANSPORT): ${transport}. Expected one of: ${TRANSPORTS.join(', ')}`)
+  }
+
+  const rawPort = (values.port as string | undefined) || env.NOTION_MCP_PORT || '3000'
+  const port = Number(rawPort)
+  if (!Number.isInteger(port) || port < 0 || port > 65535) {
+    throw new Error(`Invalid value for --port (NOTION_MCP_PORT): ${rawPort}`)
+  }
+
+  const positiveInteger = (name: string, envName: string): number | undefined => {
+    const raw = (values[name] as string | undefined) || env[envName]
+    if (!raw) return undefined
+
+    const value = Number(raw)
+    if (!Number.isInteger(value) || value < 1) {
+      throw new Error(`Invalid value for --${name} (${envName}): ${raw}`)
+    }
+    return value
+  }
+
+  const allowedHosts = (values['allowed-hosts'] as string | undefined) || env.NOTION_MCP_ALLOWED_HOSTS
+  // Given in seconds, like the cache TTL
+  const sessionIdleTimeout = positiveInteger('session-idle-timeout', 'NOTION_MCP_SESSION_IDLE_TIMEOUT')
+
+  return {
+    transport: transport as TransportName,
+    host: (values.host as string | undefined) || env.NOTION_MCP_HOST || '127.0.0.1',
+    port,
+    allowedHosts: allowedHosts ? allowedHosts.split(',').map((host) => host.trim()).filter(Boolean) : undefined,
+    maxSessions: positiveInteger('max-sessions', 'NOTION_MCP_MAX_SESSIONS'),
+    sessionIdleTimeoutMs: sessionIdleTimeout !== undefined ? sessionIdleTimeout * 1000 : undefined,
+  }
+}